@@ -1,15 +1,33 @@
-import { useCallback, useState, useRef } from 'react'
+import { useCallback, useEffect, useState, useRef } from 'react'
 import './App.css'
 import { FlowEditorWithRef, type FlowEditorRef } from './flow/FlowEditor'
 import OutputPanel from './flow/OutputPanel'
+import PipelineToolbar from './flow/PipelineToolbar'
 import type { Edge, Node } from 'reactflow'
-import type { PipelineNodeData } from './flow/codegen'
+import type { PipelineNodeData, PipelineSettings } from './flow/codegen'
+import { downloadPipeline, emptyPipeline, loadAutosave, parsePipelineDocument, saveAutosave, serializePipeline } from './flow/pipelineDocument'
+
+// 자동 저장 지연 (연속 편집 중에는 저장을 미룸)
+const AUTOSAVE_DELAY_MS = 500
 
 function App() {
-  const [nodes, setNodes] = useState<Node<PipelineNodeData>[]>([])
-  const [edges, setEdges] = useState<Edge[]>([])
+  // 새로고침 시 마지막 자동 저장본에서 복원
+  const [initialDoc] = useState(() => loadAutosave() ?? emptyPipeline())
+  const [nodes, setNodes] = useState<Node<PipelineNodeData>[]>(initialDoc.nodes)
+  const [edges, setEdges] = useState<Edge[]>(initialDoc.edges)
+  const [settings, setSettings] = useState<PipelineSettings>(initialDoc.settings)
+  const [lastSavedAt, setLastSavedAt] = useState<string | undefined>(initialDoc.savedAt)
   const flowEditorRef = useRef<FlowEditorRef>(null)
 
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const doc = serializePipeline(nodes, edges, settings)
+      saveAutosave(doc)
+      setLastSavedAt(doc.savedAt)
+    }, AUTOSAVE_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [nodes, edges, settings])
+
   const handleGraphChange = useCallback((ns: Node<PipelineNodeData>[], es: Edge[]) => {
     setNodes(ns)
     setEdges(es)
@@ -41,15 +59,51 @@ function App() {
     }
   }, [])
 
+  const handleFocusNode = useCallback((nodeId: string) => {
+    flowEditorRef.current?.focusNode(nodeId)
+  }, [])
+
+  const handleNew = useCallback(() => {
+    if (!window.confirm('현재 파이프라인을 지우고 새로 시작할까요?')) return
+    const doc = emptyPipeline()
+    setSettings(doc.settings)
+    flowEditorRef.current?.replaceGraph(doc.nodes, doc.edges)
+  }, [])
+
+  const handleImport = useCallback((file: File) => {
+    file.text().then(json => {
+      const doc = parsePipelineDocument(json)
+      setSettings(doc.settings)
+      flowEditorRef.current?.replaceGraph(doc.nodes, doc.edges)
+    }).catch(error => {
+      console.error('파이프라인 불러오기 실패:', error)
+      window.alert(`파이프라인을 불러올 수 없습니다: ${error instanceof Error ? error.message : String(error)}`)
+    })
+  }, [])
+
+  const handleExport = useCallback(() => {
+    downloadPipeline(serializePipeline(nodes, edges, settings))
+  }, [nodes, edges, settings])
+
   return (
-    <div style={{ width: '100%', display: 'grid', gridTemplateColumns: '1fr 520px', gap: 16, height: '100vh', padding: 16, boxSizing: 'border-box' }}>
-      <div style={{ height: '100%', border: '1px solid rgba(255,255,255,.15)', borderRadius: 8, overflow: 'hidden' }}>
-        <FlowEditorWithRef ref={flowEditorRef} onGraphChange={handleGraphChange} />
+    <div style={{ width: '100%', display: 'grid', gridTemplateColumns: '1fr 520px', gridTemplateRows: 'auto 1fr', gap: 16, height: '100vh', padding: 16, boxSizing: 'border-box' }}>
+      <div style={{ gridColumn: '1 / -1' }}>
+        <PipelineToolbar
+          settings={settings}
+          onSettingsChange={setSettings}
+          onNew={handleNew}
+          onImport={handleImport}
+          onExport={handleExport}
+          lastSavedAt={lastSavedAt}
+        />
+      </div>
+      <div style={{ height: '100%', minHeight: 0, border: '1px solid rgba(255,255,255,.15)', borderRadius: 8, overflow: 'hidden' }}>
+        <FlowEditorWithRef ref={flowEditorRef} initialGraph={initialDoc} settings={settings} onSettingsChange={setSettings} onGraphChange={handleGraphChange} />
       </div>
-      <div style={{ height: '100%', border: '1px solid rgba(255,255,255,.15)', borderRadius: 8, overflow: 'hidden', display: 'flex', flexDirection: 'column' }}>
+      <div style={{ height: '100%', minHeight: 0, border: '1px solid rgba(255,255,255,.15)', borderRadius: 8, overflow: 'hidden', display: 'flex', flexDirection: 'column' }}>
         <div style={{ padding: 12, borderBottom: '1px solid rgba(255,255,255,.15)', fontWeight: 700 }}>Output</div>
         <div style={{ padding: 12, flex: 1, overflow: 'hidden' }}>
-                         <OutputPanel nodes={nodes} edges={edges} onYAMLUpdate={handleYAMLUpdate} onShellUpdate={handleShellUpdate} />
+                         <OutputPanel nodes={nodes} edges={edges} settings={settings} onSettingsChange={setSettings} onYAMLUpdate={handleYAMLUpdate} onShellUpdate={handleShellUpdate} onFocusNode={handleFocusNode} />
         </div>
       </div>
     </div>
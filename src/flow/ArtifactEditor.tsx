@@ -0,0 +1,72 @@
+import ListInput from './ListInput'
+import { isArtifactName, type PipelineArtifact } from './artifacts'
+
+/**
+ * 노드의 아티팩트 편집기
+ * - Produces: 이 노드가 만드는 아티팩트 이름과 경로 목록 (쉼표로 구분)
+ * - Consumes: 앞선 단계가 만든 아티팩트 중 이 노드가 사용하는 것
+ */
+
+export interface ArtifactEditorProps {
+  produces: PipelineArtifact[]
+  consumes: string[]
+  /** 다른 노드가 만드는 아티팩트 이름 (사용 목록 후보) */
+  available: string[]
+  onChange: (produces: PipelineArtifact[], consumes: string[]) => void
+}
+
+const inputStyle = {
+  width: '100%',
+  minWidth: 0,
+  boxSizing: 'border-box' as const,
+  fontSize: '12px',
+  fontFamily: 'monospace',
+  backgroundColor: '#2d3748',
+  color: '#f7fafc',
+  border: '1px solid #4a5568',
+  borderRadius: '4px',
+  padding: '4px 6px',
+  outline: 'none'
+}
+
+export default function ArtifactEditor({ produces, consumes, available, onChange }: ArtifactEditorProps) {
+  const updateArtifact = (index: number, patch: Partial<PipelineArtifact>) =>
+    onChange(produces.map((artifact, i) => (i === index ? { ...artifact, ...patch } : artifact)), consumes)
+  const candidates = available.filter(name => !consumes.includes(name))
+
+  return (
+    <div style={{ fontSize: '12px' }}>
+      <div style={{ marginBottom: 4 }}>Produces</div>
+      {produces.map((artifact, i) => (
+        <div key={i} style={{ display: 'grid', gridTemplateColumns: '2fr 3fr auto', gap: 4, marginBottom: 4 }}>
+          <input
+            value={artifact.name}
+            placeholder="name"
+            onChange={(e) => updateArtifact(i, { name: e.target.value })}
+            style={{ ...inputStyle, borderColor: artifact.name && !isArtifactName(artifact.name) ? '#f56565' : '#4a5568' }}
+          />
+          <ListInput value={artifact.paths} placeholder="dist, build/libs/*.jar" onChange={(paths) => updateArtifact(i, { paths })} />
+          <button onClick={() => onChange(produces.filter((_, j) => j !== i), consumes)} title="아티팩트 삭제" style={{ padding: '0 6px' }}>×</button>
+        </div>
+      ))}
+      <button
+        onClick={() => onChange([...produces, { name: produces.length === 0 ? 'dist' : `artifact${produces.length + 1}`, paths: [] }], consumes)}
+        style={{ fontSize: '12px', marginBottom: 10 }}
+      >
+        + artifact
+      </button>
+
+      <div style={{ marginBottom: 4 }}>Consumes</div>
+      <ListInput value={consumes} placeholder="dist" onChange={(names) => onChange(produces, names)} />
+      {candidates.length > 0 && (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: 4, marginTop: 4 }}>
+          {candidates.map(name => (
+            <button key={name} onClick={() => onChange(produces, [...consumes, name])} title="사용 목록에 추가" style={{ fontSize: '11px', padding: '0 6px' }}>
+              + {name}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,53 @@
+import ListInput from './ListInput'
+import { cacheKeyFiles, cacheTool, usesSetupCache, type DependencyCache } from './cache'
+import type { PipelineNodeData } from './codegen'
+
+/**
+ * prebuild 노드의 의존성 캐시 편집기
+ * - 사용 여부, 캐시 키 파일(비우면 패키지 관리자 기본값), restore key 목록
+ * - 생성될 캐시 방식(setup 액션 캐시 / actions/cache) 미리보기
+ */
+
+export interface CacheEditorProps {
+  data: PipelineNodeData
+  onChange: (cache: DependencyCache | undefined) => void
+}
+
+export default function CacheEditor({ data, onChange }: CacheEditorProps) {
+  const cache = data.cache
+  const tool = cacheTool({ ...data, cache: cache ?? {} })
+  if (!tool) return null
+  const update = (patch: DependencyCache) => onChange({ ...cache, ...patch })
+
+  return (
+    <div style={{ fontSize: '12px' }}>
+      <label style={{ display: 'flex', alignItems: 'center', gap: 6, marginBottom: 6 }}>
+        <input type="checkbox" checked={!!cache} onChange={(e) => onChange(e.target.checked ? {} : undefined)} />
+        Cache {tool} dependencies
+      </label>
+      {cache && (
+        <>
+          <div style={{ marginBottom: 6 }}>
+            <div style={{ opacity: .7, marginBottom: 2 }}>Key files</div>
+            <ListInput
+              value={cache.keyFiles}
+              placeholder={cacheKeyFiles(tool, {}).join(', ')}
+              onChange={(keyFiles) => update({ keyFiles: keyFiles.length > 0 ? keyFiles : undefined })}
+            />
+          </div>
+          <div style={{ marginBottom: 6 }}>
+            <div style={{ opacity: .7, marginBottom: 2 }}>Restore keys</div>
+            <ListInput
+              value={cache.restoreKeys}
+              placeholder={`\${{ runner.os }}-${tool}-`}
+              onChange={(restoreKeys) => update({ restoreKeys: restoreKeys.length > 0 ? restoreKeys : undefined })}
+            />
+          </div>
+          <div style={{ color: '#a0aec0' }}>
+            {usesSetupCache(tool, cache) ? `setup 액션의 cache: ${tool}` : 'actions/cache step'} · 로컬: $PIPELINE_CACHE_DIR/{tool}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,307 @@
+import { Fragment, useLayoutEffect, useMemo, useRef, type KeyboardEvent } from 'react'
+import { highlight, type CodeDiagnostic, type CodeLanguage, type Token, type TokenType } from './syntax'
+
+/**
+ * 문법 강조 코드 편집기
+ * - 투명한 textarea 아래에 강조된 코드를 겹쳐 그림 (스크롤 동기화)
+ * - 줄 번호, 오류 줄 표시(거터 아이콘, 배경, 오류 위치부터 물결 밑줄). 오류 목록을 클릭하면 해당 위치로 이동
+ * - Tab/Shift+Tab 들여쓰기, Enter 시 들여쓰기 유지(블록 시작이면 한 단계 더), 괄호 자동 닫기
+ */
+
+export interface CodeEditorProps {
+  value: string
+  language: CodeLanguage
+  diagnostics?: CodeDiagnostic[]
+  onChange: (value: string) => void
+}
+
+const LINE_HEIGHT = 18
+const PADDING = 8
+const INDENT = '  '
+const PAIRS: Record<string, string> = { '(': ')', '[': ']', '{': '}' }
+const CLOSERS = Object.values(PAIRS)
+
+const TOKEN_COLORS: Record<TokenType, string> = {
+  comment: '#718096',
+  string: '#9ae6b4',
+  keyword: '#f687b3',
+  key: '#90cdf4',
+  variable: '#fbd38d',
+  number: '#f6ad55',
+  operator: '#a0aec0'
+}
+
+const SEVERITY_COLORS = { error: '#feb2b2', warning: '#faf089' }
+const SEVERITY_TINTS = { error: 'rgba(245, 101, 101, .15)', warning: 'rgba(236, 201, 75, .12)' }
+
+const codeFont = {
+  fontFamily: 'monospace',
+  fontSize: '12px',
+  lineHeight: `${LINE_HEIGHT}px`,
+  tabSize: 4
+}
+
+const tokenSpan = (token: Token, i: number) =>
+  token.type ? <span key={i} style={{ color: TOKEN_COLORS[token.type] }}>{token.text}</span> : <Fragment key={i}>{token.text}</Fragment>
+
+/** 오류 위치(열)부터 줄 끝까지 물결 밑줄. 줄 끝 오류는 빈칸 하나에 표시 */
+function renderLine(tokens: Token[], mark?: CodeDiagnostic) {
+  if (!mark) return tokens.map(tokenSpan)
+  const before: Token[] = []
+  const after: Token[] = []
+  let column = 0
+  tokens.forEach(token => {
+    const cut = Math.max(0, Math.min(token.text.length, mark.column - column))
+    if (cut > 0) before.push({ ...token, text: token.text.slice(0, cut) })
+    if (cut < token.text.length) after.push({ ...token, text: token.text.slice(cut) })
+    column += token.text.length
+  })
+  return (
+    <>
+      {before.map(tokenSpan)}
+      <span style={{ textDecoration: `underline wavy ${SEVERITY_COLORS[mark.severity]}` }}>{after.length > 0 ? after.map(tokenSpan) : ' '}</span>
+    </>
+  )
+}
+
+/** 커서 앞 내용이 들여쓰기 블록을 여는지 (Enter 시 한 단계 더 들여씀) */
+const opensBlock = (line: string, language: CodeLanguage): boolean => {
+  const code = (language === 'groovy' ? line : line.replace(/(^|\s)#.*$/, '')).trimEnd()
+  if (/[([{]$/.test(code)) return true
+  if (language === 'yaml') return /:$|(?:^|\s)[|>][-+]?$/.test(code)
+  if (language === 'shell') return /(?:^|[\s;])(?:then|do|else|in)$/.test(code)
+  return false
+}
+
+/**
+ * 읽기 전용 강조 코드 (줄 번호 없음). `<pre>` 안에 넣어 사용
+ */
+export function HighlightedCode({ text, language }: { text: string, language: CodeLanguage }) {
+  const lines = useMemo(() => highlight(text, language), [text, language])
+  return <>{lines.map((tokens, i) => <Fragment key={i}>{i > 0 && '\n'}{tokens.map(tokenSpan)}</Fragment>)}</>
+}
+
+export default function CodeEditor({ value, language, diagnostics = [], onChange }: CodeEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const codeRef = useRef<HTMLPreElement>(null)
+  const gutterRef = useRef<HTMLDivElement>(null)
+  const pendingSelection = useRef<[number, number] | null>(null)
+
+  const lines = useMemo(() => highlight(value, language), [value, language])
+  // 줄별 오류 (앞쪽 열 우선)
+  const marks = useMemo(() => {
+    const byLine = new Map<number, CodeDiagnostic[]>()
+    ;[...diagnostics].sort((a, b) => a.column - b.column).forEach(d => byLine.set(d.line, [...(byLine.get(d.line) ?? []), d]))
+    return byLine
+  }, [diagnostics])
+
+  // 키 입력으로 바꾼 내용이 반영된 뒤 커서 위치 복원
+  useLayoutEffect(() => {
+    const selection = pendingSelection.current
+    if (selection && textareaRef.current) textareaRef.current.setSelectionRange(...selection)
+    pendingSelection.current = null
+  }, [value])
+
+  const syncScroll = () => {
+    const el = textareaRef.current
+    if (!el) return
+    if (codeRef.current) {
+      codeRef.current.scrollTop = el.scrollTop
+      codeRef.current.scrollLeft = el.scrollLeft
+    }
+    if (gutterRef.current) gutterRef.current.scrollTop = el.scrollTop
+  }
+
+  const replace = (start: number, end: number, text: string, selectionStart = start + text.length, selectionEnd = selectionStart) => {
+    pendingSelection.current = [selectionStart, selectionEnd]
+    onChange(value.slice(0, start) + text + value.slice(end))
+  }
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.ctrlKey || e.metaKey || e.altKey || e.nativeEvent.isComposing) return
+    const el = e.currentTarget
+    const { selectionStart: start, selectionEnd: end } = el
+    const lineStart = value.lastIndexOf('\n', start - 1) + 1
+    const before = value.slice(lineStart, start)
+    const next = value[end]
+
+    if (e.key === 'Tab') {
+      e.preventDefault()
+      if (start === end && !e.shiftKey) return replace(start, end, INDENT)
+      // 선택한 줄 전체 들여쓰기/내어쓰기 (선택 끝이 줄 처음이면 그 줄은 제외)
+      const found = value.indexOf('\n', end > start && value[end - 1] === '\n' ? end - 1 : end)
+      const lineEnd = found < 0 ? value.length : found
+      const block = value.slice(lineStart, lineEnd)
+      const text = block.split('\n').map(line => (e.shiftKey ? line.replace(/^ {1,2}/, '') : INDENT + line)).join('\n')
+      if (start === end) return replace(lineStart, lineEnd, text, Math.max(lineStart, start + text.length - block.length))
+      return replace(lineStart, lineEnd, text, lineStart, lineStart + text.length)
+    }
+
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      const indent = /^[ \t]*/.exec(before)![0]
+      const extra = opensBlock(before, language) ? INDENT : ''
+      // 빈 괄호 사이에서 Enter: 닫는 괄호를 다음 줄로
+      if (start === end && PAIRS[value[start - 1]] && PAIRS[value[start - 1]] === next) {
+        return replace(start, end, `\n${indent}${INDENT}\n${indent}`, start + 1 + indent.length + INDENT.length)
+      }
+      return replace(start, end, `\n${indent}${extra}`)
+    }
+
+    if (PAIRS[e.key] && (start !== end || !next || /[\s)\]},;]/.test(next))) {
+      e.preventDefault()
+      return replace(start, end, e.key + value.slice(start, end) + PAIRS[e.key], start + 1, end + 1)
+    }
+
+    if ((e.key === '"' || e.key === '\'') && start !== end) {
+      e.preventDefault()
+      return replace(start, end, e.key + value.slice(start, end) + e.key, start + 1, end + 1)
+    }
+
+    if (CLOSERS.includes(e.key) && start === end && next === e.key) {
+      e.preventDefault()
+      el.setSelectionRange(start + 1, start + 1)
+      return
+    }
+
+    if (e.key === 'Backspace' && start === end && start > 0) {
+      if (PAIRS[value[start - 1]] && PAIRS[value[start - 1]] === next) {
+        e.preventDefault()
+        return replace(start - 1, start + 1, '')
+      }
+      // 들여쓰기 공백은 한 단계씩 지움
+      if (/^ +$/.test(before)) {
+        e.preventDefault()
+        const remove = before.length % INDENT.length || INDENT.length
+        return replace(start - remove, start, '')
+      }
+    }
+  }
+
+  const reveal = (d: CodeDiagnostic) => {
+    const el = textareaRef.current
+    if (!el) return
+    const preceding = value.split('\n').slice(0, d.line)
+    const lineLength = value.split('\n')[d.line]?.length ?? 0
+    const offset = preceding.reduce((sum, line) => sum + line.length + 1, 0) + Math.min(d.column, lineLength)
+    el.focus()
+    el.setSelectionRange(offset, offset)
+    el.scrollTop = Math.max(0, d.line * LINE_HEIGHT - el.clientHeight / 2)
+    syncScroll()
+  }
+
+  return (
+    <div style={{ flex: 1, minHeight: 0, display: 'flex', flexDirection: 'column' }}>
+      <div
+        style={{
+          flex: 1,
+          minHeight: 0,
+          display: 'flex',
+          backgroundColor: '#2d3748',
+          border: '1px solid #4a5568',
+          borderRadius: '4px',
+          overflow: 'hidden',
+          ...codeFont
+        }}
+      >
+        <div
+          ref={gutterRef}
+          style={{
+            flexShrink: 0,
+            overflow: 'hidden',
+            padding: `${PADDING}px 0 ${PADDING + 20}px`,
+            backgroundColor: '#1a202c',
+            color: '#718096',
+            textAlign: 'right',
+            userSelect: 'none'
+          }}
+        >
+          {lines.map((_, i) => {
+            const lineMarks = marks.get(i)
+            const severity = lineMarks && (lineMarks.some(d => d.severity === 'error') ? 'error' : 'warning')
+            return (
+              <div
+                key={i}
+                title={lineMarks?.map(d => d.message).join('\n')}
+                style={{ height: LINE_HEIGHT, padding: '0 8px 0 4px', color: severity ? SEVERITY_COLORS[severity] : undefined }}
+              >
+                <span style={{ display: 'inline-block', width: 14, textAlign: 'center' }}>{severity === 'error' ? '●' : severity ? '▲' : ''}</span>
+                {i + 1}
+              </div>
+            )
+          })}
+        </div>
+        <div style={{ position: 'relative', flex: 1, minWidth: 0 }}>
+          <pre
+            ref={codeRef}
+            aria-hidden
+            style={{
+              position: 'absolute',
+              inset: 0,
+              margin: 0,
+              padding: PADDING,
+              overflow: 'hidden',
+              whiteSpace: 'pre',
+              color: '#f7fafc',
+              pointerEvents: 'none',
+              ...codeFont
+            }}
+          >
+            {lines.map((tokens, i) => {
+              const mark = marks.get(i)?.[0]
+              return (
+                <div key={i} style={{ height: LINE_HEIGHT, width: 'max-content', minWidth: '100%', backgroundColor: mark ? SEVERITY_TINTS[mark.severity] : undefined }}>
+                  {renderLine(tokens, mark)}
+                </div>
+              )
+            })}
+          </pre>
+          <textarea
+            ref={textareaRef}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onScroll={syncScroll}
+            wrap="off"
+            spellCheck={false}
+            autoFocus
+            style={{
+              position: 'absolute',
+              inset: 0,
+              width: '100%',
+              height: '100%',
+              boxSizing: 'border-box',
+              margin: 0,
+              padding: PADDING,
+              border: 'none',
+              outline: 'none',
+              resize: 'none',
+              overflow: 'auto',
+              whiteSpace: 'pre',
+              backgroundColor: 'transparent',
+              color: 'transparent',
+              caretColor: '#f7fafc',
+              ...codeFont
+            }}
+          />
+        </div>
+      </div>
+      {diagnostics.length > 0 && (
+        <div style={{ maxHeight: 90, overflow: 'auto', marginTop: 6 }}>
+          {diagnostics.map((d, i) => (
+            <div
+              key={i}
+              onClick={() => reveal(d)}
+              title="클릭하여 위치로 이동"
+              style={{ fontSize: '12px', padding: '2px 6px', borderRadius: '4px', cursor: 'pointer', color: SEVERITY_COLORS[d.severity] }}
+              onMouseEnter={(e) => { e.currentTarget.style.backgroundColor = '#2d3748' }}
+              onMouseLeave={(e) => { e.currentTarget.style.backgroundColor = 'transparent' }}
+            >
+              {d.severity === 'error' ? '⛔' : '⚠'} {d.line + 1}:{d.column + 1} {d.message}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
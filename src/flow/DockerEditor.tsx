@@ -0,0 +1,97 @@
+import ListInput from './ListInput'
+import {
+  DEFAULT_PASSWORD_SECRET,
+  DEFAULT_USERNAME_SECRET,
+  DOCKER_TAG_RULES,
+  imageRegistry,
+  normalizeDockerOptions,
+  parseImageRef,
+  type DockerOptions
+} from './docker'
+
+/**
+ * docker_build 노드의 레지스트리/빌드 옵션 편집기
+ * - push 여부와 로그인 자격 증명 시크릿 이름 (레지스트리는 이미지 이름에서 결정)
+ * - 자동 태그 규칙, build arg, 대상 플랫폼, 레이어 캐시
+ */
+
+export interface DockerEditorProps {
+  image: string
+  options?: DockerOptions
+  onChange: (options: DockerOptions | undefined) => void
+}
+
+const inputStyle = {
+  width: '100%',
+  minWidth: 0,
+  boxSizing: 'border-box' as const,
+  fontSize: '12px',
+  fontFamily: 'monospace',
+  backgroundColor: '#2d3748',
+  color: '#f7fafc',
+  border: '1px solid #4a5568',
+  borderRadius: '4px',
+  padding: '4px 6px',
+  outline: 'none'
+}
+
+export default function DockerEditor({ image, options = {}, onChange }: DockerEditorProps) {
+  const update = (patch: DockerOptions) => onChange(normalizeDockerOptions({ ...options, ...patch }))
+  const registry = imageRegistry(parseImageRef(image).name) ?? 'Docker Hub'
+  const rules = options.tagRules ?? []
+
+  return (
+    <div style={{ fontSize: '12px' }}>
+      <label style={{ display: 'flex', alignItems: 'center', gap: 6, marginBottom: 6 }}>
+        <input type="checkbox" checked={!!options.push} onChange={(e) => update({ push: e.target.checked })} />
+        Push to {registry}
+      </label>
+      {options.push && (
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 4, marginBottom: 6 }}>
+          <input
+            value={options.usernameSecret ?? ''}
+            placeholder={DEFAULT_USERNAME_SECRET}
+            title="사용자 이름 시크릿"
+            onChange={(e) => update({ usernameSecret: e.target.value.trim() })}
+            style={inputStyle}
+          />
+          <input
+            value={options.passwordSecret ?? ''}
+            placeholder={DEFAULT_PASSWORD_SECRET}
+            title="비밀번호/토큰 시크릿"
+            onChange={(e) => update({ passwordSecret: e.target.value.trim() })}
+            style={inputStyle}
+          />
+        </div>
+      )}
+      <div style={{ opacity: .7, marginBottom: 2 }}>Tags</div>
+      <div style={{ display: 'flex', gap: 10, marginBottom: 6 }}>
+        {DOCKER_TAG_RULES.map(rule => (
+          <label key={rule} style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+            <input
+              type="checkbox"
+              checked={rules.includes(rule)}
+              onChange={(e) => update({ tagRules: e.target.checked ? DOCKER_TAG_RULES.filter(r => r === rule || rules.includes(r)) : rules.filter(r => r !== rule) })}
+            />
+            {rule}
+          </label>
+        ))}
+      </div>
+      <div style={{ marginBottom: 6 }}>
+        <div style={{ opacity: .7, marginBottom: 2 }}>Build args</div>
+        <ListInput value={options.buildArgs} placeholder="NODE_ENV=production" onChange={(buildArgs) => update({ buildArgs })} />
+      </div>
+      <div style={{ marginBottom: 6 }}>
+        <div style={{ opacity: .7, marginBottom: 2 }}>Platforms</div>
+        <ListInput value={options.platforms} placeholder="linux/amd64, linux/arm64" onChange={(platforms) => update({ platforms })} />
+      </div>
+      <label style={{ display: 'flex', alignItems: 'center', gap: 6, marginBottom: 6 }}>
+        <input type="checkbox" checked={!!options.layerCache} onChange={(e) => update({ layerCache: e.target.checked })} />
+        Cache build layers
+      </label>
+      <div style={{ color: '#a0aec0' }}>
+        {normalizeDockerOptions(options) ? 'GitHub Actions: docker/build-push-action' : 'docker build'}
+      </div>
+    </div>
+  )
+}
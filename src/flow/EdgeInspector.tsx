@@ -0,0 +1,71 @@
+import type { Edge } from 'reactflow'
+import { EDGE_CONDITIONS, edgeCondition, type EdgeCondition, type PipelineEdgeData } from './codegen'
+
+/**
+ * 선택된 엣지의 실행 조건을 편집하는 사이드 패널
+ * - success / failure / always / custom 중 선택
+ * - custom은 GitHub Actions 조건식 입력 (셸 실행 시에는 success와 같게 처리)
+ */
+
+export interface EdgeInspectorProps {
+  edge: Edge
+  sourceLabel: string
+  targetLabel: string
+  onChange: (id: string, patch: PipelineEdgeData) => void
+  onClose: () => void
+}
+
+const inputStyle = {
+  width: '100%',
+  boxSizing: 'border-box' as const,
+  fontSize: '12px',
+  backgroundColor: '#2d3748',
+  color: '#f7fafc',
+  border: '1px solid #4a5568',
+  borderRadius: '4px',
+  padding: '6px 8px',
+  outline: 'none'
+}
+
+const CONDITION_DESCRIPTIONS: Record<EdgeCondition, string> = {
+  success: '앞 단계가 성공하면 실행',
+  failure: '앞 단계(또는 그 이전 단계)가 실패하면 실행',
+  always: '성공/실패와 관계없이 앞 단계가 끝나면 실행',
+  custom: 'GitHub Actions 조건식이 참이면 실행'
+}
+
+export default function EdgeInspector({ edge, sourceLabel, targetLabel, onChange, onClose }: EdgeInspectorProps) {
+  const condition = edgeCondition(edge)
+  const expression = (edge.data as PipelineEdgeData | undefined)?.expression ?? ''
+
+  return (
+    <div style={{ borderLeft: '1px solid rgba(255,255,255,.15)', paddingLeft: 12, overflow: 'auto' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8 }}>
+        <div>
+          <div style={{ fontWeight: 700 }}>Connection</div>
+          <div style={{ fontSize: '12px', opacity: .7 }}>{sourceLabel} → {targetLabel}</div>
+        </div>
+        <button onClick={onClose} title="닫기" style={{ padding: '2px 8px' }}>×</button>
+      </div>
+      <label style={{ display: 'block', marginBottom: 10, fontSize: '12px' }}>
+        <div style={{ marginBottom: 4 }}>Run when</div>
+        <select value={condition} onChange={(e) => onChange(edge.id, { condition: e.target.value as EdgeCondition })} style={inputStyle}>
+          {EDGE_CONDITIONS.map(c => <option key={c} value={c}>{c}</option>)}
+        </select>
+        <div style={{ marginTop: 4, color: '#a0aec0' }}>{CONDITION_DESCRIPTIONS[condition]}</div>
+      </label>
+      {condition === 'custom' && (
+        <label style={{ display: 'block', marginBottom: 10, fontSize: '12px' }}>
+          <div style={{ marginBottom: 4 }}>Expression<span style={{ color: '#f56565' }}> *</span></div>
+          <input
+            value={expression}
+            placeholder="github.ref == 'refs/heads/main'"
+            onChange={(e) => onChange(edge.id, { expression: e.target.value || undefined })}
+            style={{ ...inputStyle, fontFamily: 'monospace', borderColor: expression.trim() ? '#4a5568' : '#f56565' }}
+          />
+          <div style={{ marginTop: 4, color: '#a0aec0' }}>로컬 셸 실행에서는 앞 단계 성공 시 실행됩니다</div>
+        </label>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,118 @@
+import { useState } from 'react'
+import { isEnvName } from './quoting'
+
+/**
+ * 환경 변수 / 시크릿 편집기
+ * - 변수: 이름과 값을 행 단위로 편집 (이름 변경 시 순서 유지)
+ * - 시크릿: 이름만 관리. 값은 CI 시크릿 저장소(GitHub Secrets 등)나 실행 환경에서 주입
+ * - 파이프라인 설정 대화 상자와 노드 속성 패널에서 공통으로 사용
+ * - actionInputs: 액션 step의 `with:` 입력 편집 (이름에 `-` 허용, 시크릿 목록 없음)
+ */
+
+export interface EnvEditorProps {
+  env: Record<string, string>
+  secrets: string[]
+  onChange: (env: Record<string, string>, secrets: string[]) => void
+  actionInputs?: boolean
+}
+
+const inputStyle = {
+  minWidth: 0,
+  boxSizing: 'border-box' as const,
+  fontSize: '12px',
+  fontFamily: 'monospace',
+  backgroundColor: '#2d3748',
+  color: '#f7fafc',
+  border: '1px solid #4a5568',
+  borderRadius: '4px',
+  padding: '4px 6px',
+  outline: 'none'
+}
+
+const isInputName = (name: string) => /^[A-Za-z_][A-Za-z0-9_-]*$/.test(name)
+
+export default function EnvEditor({ env, secrets, onChange, actionInputs = false }: EnvEditorProps) {
+  const isValidName = actionInputs ? isInputName : isEnvName
+  const invalidStyle = (name: string) => ({ ...inputStyle, borderColor: name && !isValidName(name) ? '#f56565' : '#4a5568' })
+  const [newKey, setNewKey] = useState('')
+  const [newValue, setNewValue] = useState('')
+  const [newSecret, setNewSecret] = useState('')
+  const entries = Object.entries(env)
+
+  const updateEntry = (index: number, key: string, value: string) => {
+    onChange(Object.fromEntries(entries.map((entry, i) => (i === index ? [key, value] : entry))), secrets)
+  }
+  const removeEntry = (index: number) => {
+    onChange(Object.fromEntries(entries.filter((_, i) => i !== index)), secrets)
+  }
+  const addEntry = () => {
+    const key = newKey.trim()
+    if (!key) return
+    onChange({ ...env, [key]: newValue }, secrets)
+    setNewKey('')
+    setNewValue('')
+  }
+  const addSecret = () => {
+    const name = newSecret.trim()
+    if (!name || secrets.includes(name)) return
+    onChange(env, [...secrets, name])
+    setNewSecret('')
+  }
+
+  return (
+    <div style={{ fontSize: '12px' }}>
+      <div style={{ marginBottom: 4 }}>{actionInputs ? 'Inputs' : 'Variables'}</div>
+      {entries.map(([key, value], i) => (
+        <div key={i} style={{ display: 'grid', gridTemplateColumns: '2fr 3fr auto', gap: 4, marginBottom: 4 }}>
+          <input value={key} onChange={(e) => updateEntry(i, e.target.value, value)} style={invalidStyle(key)} />
+          <input value={value} onChange={(e) => updateEntry(i, key, e.target.value)} style={inputStyle} />
+          <button onClick={() => removeEntry(i)} title={actionInputs ? '입력 삭제' : '변수 삭제'} style={{ padding: '0 6px' }}>×</button>
+        </div>
+      ))}
+      <div style={{ display: 'grid', gridTemplateColumns: '2fr 3fr auto', gap: 4, marginBottom: 10 }}>
+        <input
+          value={newKey}
+          placeholder={actionInputs ? 'name' : 'NAME'}
+          onChange={(e) => setNewKey(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') addEntry() }}
+          style={invalidStyle(newKey.trim())}
+        />
+        <input
+          value={newValue}
+          placeholder="value"
+          onChange={(e) => setNewValue(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') addEntry() }}
+          style={inputStyle}
+        />
+        <button onClick={addEntry} disabled={!newKey.trim()} title={actionInputs ? '입력 추가' : '변수 추가'} style={{ padding: '0 6px' }}>+</button>
+      </div>
+
+      {!actionInputs && (
+        <>
+          <div style={{ marginBottom: 4 }} title="값은 저장하지 않으며 CI 시크릿 또는 실행 환경 변수로 주입됩니다">Secrets</div>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: 4, marginBottom: 4 }}>
+            {secrets.map(name => (
+              <span
+                key={name}
+                style={{ ...inputStyle, display: 'inline-flex', alignItems: 'center', gap: 4, borderColor: isEnvName(name) ? '#805ad5' : '#f56565' }}
+              >
+                🔒 {name}
+                <button onClick={() => onChange(env, secrets.filter(s => s !== name))} title="시크릿 삭제" style={{ padding: '0 4px', fontSize: '11px' }}>×</button>
+              </span>
+            ))}
+          </div>
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr auto', gap: 4 }}>
+            <input
+              value={newSecret}
+              placeholder="SECRET_NAME"
+              onChange={(e) => setNewSecret(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') addSecret() }}
+              style={invalidStyle(newSecret.trim())}
+            />
+            <button onClick={addSecret} disabled={!newSecret.trim()} title="시크릿 추가" style={{ padding: '0 6px' }}>+</button>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
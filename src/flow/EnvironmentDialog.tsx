@@ -0,0 +1,41 @@
+import type { PipelineSettings } from './codegen'
+import EnvEditor from './EnvEditor'
+
+/**
+ * 파이프라인 환경 설정 대화 상자
+ * - 모든 단계에 적용되는 변수와 시크릿 이름을 편집
+ * - YAML은 워크플로 `env:`(시크릿은 `${{ secrets.NAME }}`), Shell은 스크립트 앞부분 export/필수 값 검사로 생성
+ */
+
+export interface EnvironmentDialogProps {
+  settings: PipelineSettings
+  onSettingsChange: (settings: PipelineSettings) => void
+  onClose: () => void
+}
+
+export default function EnvironmentDialog({ settings, onSettingsChange, onClose }: EnvironmentDialogProps) {
+  return (
+    <div
+      onClick={onClose}
+      style={{ position: 'fixed', inset: 0, backgroundColor: 'rgba(0,0,0,.55)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 1000 }}
+    >
+      <div
+        onClick={(e) => e.stopPropagation()}
+        style={{ width: 480, maxWidth: '90vw', maxHeight: '80vh', overflow: 'auto', backgroundColor: '#1a202c', color: '#f7fafc', border: '1px solid #4a5568', borderRadius: 8, padding: 16 }}
+      >
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 12 }}>
+          <div style={{ fontWeight: 700 }}>Pipeline variables</div>
+          <button onClick={onClose} title="닫기" style={{ padding: '2px 8px' }}>×</button>
+        </div>
+        <div style={{ fontSize: '12px', opacity: .7, marginBottom: 12 }}>
+          모든 단계에서 사용할 수 있습니다. 시크릿은 이름만 저장되며 값은 CI 시크릿 또는 실행 환경에서 주입됩니다.
+        </div>
+        <EnvEditor
+          env={settings.env}
+          secrets={settings.secrets}
+          onChange={(env, secrets) => onSettingsChange({ ...settings, env, secrets })}
+        />
+      </div>
+    </div>
+  )
+}
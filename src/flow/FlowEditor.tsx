@@ -1,32 +1,109 @@
-import { useCallback, useEffect, useMemo, useRef, useImperativeHandle, forwardRef } from 'react'
-import ReactFlow, { Background, Controls, MarkerType, MiniMap, ReactFlowProvider, addEdge, type Connection, type Edge, type Node, Panel, useEdgesState, useNodesState, useReactFlow } from 'reactflow'
+import { useCallback, useEffect, useMemo, useRef, useImperativeHandle, useState, forwardRef } from 'react'
+import ReactFlow, { Background, Controls, MarkerType, MiniMap, ReactFlowProvider, addEdge, type Connection, type Edge, type EdgeChange, type Node, type NodeChange, Panel, useEdgesState, useNodesState, useReactFlow } from 'reactflow'
 import 'reactflow/dist/style.css'
-import type { PipelineNodeData } from './codegen'
-
-// 초기 그래프: Start 노드 1개만 배치
-const initialNodes: Node<PipelineNodeData>[] = [
-  {
-    id: 'start',
-    position: { x: 50, y: 80 },
-    data: { kind: 'start', label: 'Start' },
-    type: 'default'
-  }
-]
+import { DEFAULT_PIPELINE_SETTINGS, FAILURE_HANDLE, PIPELINE_NODE_TYPE, edgeCondition, stepNumbers, type EdgeCondition, type PipelineEdgeData, type PipelineNodeData, type PipelineSettings } from './codegen'
+import EdgeInspector from './EdgeInspector'
+import { producedArtifacts } from './artifacts'
+import { CanvasDecorationsContext } from './canvasContext'
+import { useGraphHistory } from './history'
+import { handlePositions, layoutGraph, positionAfter, type LayoutDirection } from './layout'
+import NodeInspector from './NodeInspector'
+import PipelineNodeCard from './PipelineNodeCard'
+import { labelFor } from './nodeSchema'
+import { PALETTE } from './palette'
+import { emptyPipeline } from './pipelineDocument'
+import TemplateDialog, { type TemplateApplyMode } from './TemplateDialog'
+import { instantiateTemplate, insertTemplateAfter, type PipelineTemplate } from './templates'
+import { groupDiagnosticsByNode, validateGraph } from './validation'
+
+// 커스텀 노드 렌더러 등록 (렌더마다 새 객체가 되지 않도록 모듈 상수로 둠)
+const nodeTypes = { [PIPELINE_NODE_TYPE]: PipelineNodeCard }
+
+// 실행 조건별 엣지 스타일과 라벨 (success는 기본 스타일)
+const conditionEdgeStyles: Record<EdgeCondition, { stroke: string, strokeDasharray: string } | undefined> = {
+  success: undefined,
+  failure: { stroke: '#e53e3e', strokeDasharray: '6 3' },
+  always: { stroke: '#805ad5', strokeDasharray: '2 4' },
+  custom: { stroke: '#d69e2e', strokeDasharray: '8 3 2 3' }
+}
+const conditionLabels: Record<EdgeCondition, string | undefined> = {
+  success: undefined,
+  failure: 'on failure',
+  always: 'always',
+  custom: 'if …'
+}
+
+// 모든 엣지에 공통으로 적용하는 표시 속성 (단계 번호 라벨 + 화살표)
+const edgeDisplayDefaults = {
+  type: 'smoothstep',
+  animated: true,
+  markerEnd: { type: MarkerType.ArrowClosed, width: 20, height: 20 },
+  labelStyle: { fill: '#fff', fontWeight: 600, fontSize: '12px' },
+  labelBgStyle: { fill: '#1a192b', fillOpacity: 0.8 },
+  labelBgPadding: [4, 4] as [number, number],
+  labelBgBorderRadius: 4
+}
 
 export interface FlowEditorProps {
+  /** 처음 표시할 그래프 (자동 저장본 등). 없으면 Start 노드 1개 */
+  initialGraph?: { nodes: Node<PipelineNodeData>[], edges: Edge[] }
+  /** 파이프라인 설정 (변수/시크릿 선언 검증에 사용) */
+  settings?: PipelineSettings
+  /** 그래프 전체 교체를 되돌릴 때 이전 설정 복원 */
+  onSettingsChange?: (settings: PipelineSettings) => void
   onGraphChange?: (nodes: Node<PipelineNodeData>[], edges: Edge[]) => void
 }
 
 export interface FlowEditorRef {
   updateGraphFromYAML: (yamlContent: string) => void
   updateGraphFromShell: (shellContent: string) => void
+  focusNode: (nodeId: string) => void
+  replaceGraph: (nodes: Node<PipelineNodeData>[], edges: Edge[]) => void
 }
 
 // 실제 에디터 캔버스 컴포넌트 (Provider 내부에서만 동작)
-const EditorCanvas = forwardRef<FlowEditorRef, FlowEditorProps>(({ onGraphChange }, ref) => {
+const EditorCanvas = forwardRef<FlowEditorRef, FlowEditorProps>(({ initialGraph, settings = DEFAULT_PIPELINE_SETTINGS, onSettingsChange, onGraphChange }, ref) => {
   // React Flow 상태 훅: 노드/엣지 배열과 변경 핸들러를 반환
-  const [nodes, setNodes, onNodesChange] = useNodesState<PipelineNodeData>(initialNodes)
-  const [edges, setEdges, onEdgesChange] = useEdgesState([])
+  const [nodes, setNodes, onNodesChange] = useNodesState<PipelineNodeData>(initialGraph?.nodes ?? emptyPipeline().nodes)
+  const [edges, setEdges, onEdgesChange] = useEdgesState(initialGraph?.edges ?? [])
+
+  // 실행 취소/다시 실행 기록. 그래프를 바꾸는 동작은 변경 전에 history.record() 호출
+  // 설정은 그래프 전체 교체(불러오기, 새 파이프라인) 기록에만 함께 저장
+  const history = useGraphHistory(nodes, edges, setNodes, setEdges, { value: settings, restore: s => onSettingsChange?.(s) })
+  const { record, undo, redo } = history
+
+  // 자동 배치 방향 (가져오기 후 배치와 Tidy 버튼에 공통 적용)
+  const [layoutDirection, setLayoutDirection] = useState<LayoutDirection>('TB')
+
+  // 삭제(Backspace/Delete)는 기록 후 반영. 선택/크기 측정 등 나머지 변경은 기록하지 않음
+  const handleNodesChange = useCallback((changes: NodeChange[]) => {
+    if (changes.some(c => c.type === 'remove')) record()
+    onNodesChange(changes)
+  }, [onNodesChange, record])
+
+  const handleEdgesChange = useCallback((changes: EdgeChange[]) => {
+    if (changes.some(c => c.type === 'remove')) record()
+    onEdgesChange(changes)
+  }, [onEdgesChange, record])
+
+  // Ctrl+Z / Ctrl+Shift+Z (Ctrl+Y). 입력 필드에서는 브라우저 기본 동작 유지
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return
+      const target = e.target as HTMLElement | null
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return
+      const key = e.key.toLowerCase()
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault()
+        undo()
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault()
+        redo()
+      }
+    }
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  }, [undo, redo])
 
   // ReactFlow 인스턴스/좌표 변환에 사용
   const flowRef = useRef<HTMLDivElement>(null)
@@ -43,12 +120,15 @@ const EditorCanvas = forwardRef<FlowEditorRef, FlowEditorProps>(({ onGraphChange
   const updateGraphFromYAML = useCallback((yamlContent: string) => {
     // parseYAMLToGraph 함수를 동적으로 import
     import('./codegen').then(({ parseYAMLToGraph }) => {
-      const { nodes: newNodes, edges: newEdges } = parseYAMLToGraph(yamlContent)
+      const { nodes: newNodes, edges: newEdges, settings: imported } = parseYAMLToGraph(yamlContent)
       
       if (newNodes.length > 0) {
-        // 새로운 노드와 엣지로 그래프 업데이트
-        setNodes(newNodes)
+        // 새로운 노드와 엣지로 그래프 업데이트 (의존성 기준으로 자동 배치)
+        // 워크플로 name/env도 설정에 반영하므로 실행 취소 시 함께 되돌리도록 설정까지 기록
+        record(undefined, true)
+        setNodes(layoutGraph(newNodes, newEdges, layoutDirection))
         setEdges(newEdges)
+        if (imported) onSettingsChange?.({ ...settings, ...imported })
         
         // 뷰를 새로운 그래프에 맞게 조정
         setTimeout(() => {
@@ -58,7 +138,7 @@ const EditorCanvas = forwardRef<FlowEditorRef, FlowEditorProps>(({ onGraphChange
     }).catch(error => {
       console.error('YAML 파싱 모듈 로드 오류:', error)
     })
-  }, [setNodes, setEdges, rf])
+  }, [setNodes, setEdges, rf, record, layoutDirection, settings, onSettingsChange])
 
   // Shell에서 파싱된 그래프로 업데이트
   const updateGraphFromShell = useCallback((shellContent: string) => {
@@ -74,8 +154,9 @@ const EditorCanvas = forwardRef<FlowEditorRef, FlowEditorProps>(({ onGraphChange
       
       if (newNodes.length > 0) {
         console.log('새로운 Shell 노드들을 그래프에 적용 중...')
-        // 새로운 노드와 엣지로 그래프 업데이트
-        setNodes(newNodes)
+        // 새로운 노드와 엣지로 그래프 업데이트 (의존성 기준으로 자동 배치)
+        record()
+        setNodes(layoutGraph(newNodes, newEdges, layoutDirection))
         setEdges(newEdges)
         
         // 뷰를 새로운 그래프에 맞게 조정
@@ -90,17 +171,64 @@ const EditorCanvas = forwardRef<FlowEditorRef, FlowEditorProps>(({ onGraphChange
     }).catch(error => {
       console.error('Shell 파싱 모듈 로드 오류:', error)
     })
-  }, [setNodes, setEdges, rf])
+  }, [setNodes, setEdges, rf, record, layoutDirection])
+
+  // 노드를 선택하고 뷰 중앙으로 이동 (문제 목록 클릭 시)
+  const focusNode = useCallback((nodeId: string) => {
+    setNodes(ns => ns.map(n => ({ ...n, selected: n.id === nodeId })))
+    rf.fitView({ nodes: [{ id: nodeId }], padding: 0.5, duration: 300, maxZoom: 1.5 })
+  }, [setNodes, rf])
+
+  // 그래프 전체 교체 (프로젝트 파일 불러오기, 새 파이프라인). 설정도 바뀌므로 교체 전 설정을 함께 기록
+  const replaceGraph = useCallback((newNodes: Node<PipelineNodeData>[], newEdges: Edge[]) => {
+    record(undefined, true)
+    setNodes(newNodes)
+    setEdges(newEdges)
+    setTimeout(() => {
+      rf.fitView({ padding: 0.1 })
+    }, 100)
+  }, [setNodes, setEdges, rf, record])
+
+  // 현재 그래프를 계층형으로 재배치
+  const tidyLayout = useCallback((direction: LayoutDirection) => {
+    record()
+    setLayoutDirection(direction)
+    setNodes(ns => layoutGraph(ns, edges, direction))
+    setTimeout(() => {
+      rf.fitView({ padding: 0.1, duration: 300 })
+    }, 50)
+  }, [record, setNodes, edges, rf])
 
   // ref를 통해 외부에서 함수 호출 가능하도록 설정
   useImperativeHandle(ref, () => ({
     updateGraphFromYAML,
-    updateGraphFromShell
-  }), [updateGraphFromYAML, updateGraphFromShell])
+    updateGraphFromShell,
+    focusNode,
+    replaceGraph
+  }), [updateGraphFromYAML, updateGraphFromShell, focusNode, replaceGraph])
 
-  // 엣지 연결 시: 화살표와 애니메이션 추가
+  // 노드별 검증 결과 (노드 카드 배지 표시용)
+  const diagnosticsByNode = useMemo(() => groupDiagnosticsByNode(validateGraph(nodes, edges, settings)), [nodes, edges, settings])
+  // 실행 순서 기준 단계 번호 (Shell/YAML 생성과 같은 스케줄에서 계산)
+  const numbers = useMemo(() => stepNumbers(nodes, edges), [nodes, edges])
+  const decorations = useMemo(() => ({ diagnosticsByNode, stepNumbers: numbers }), [diagnosticsByNode, numbers])
+
+  // 표시용 엣지: 도착 노드의 단계 번호와 실행 조건을 라벨로, 조건별 선 스타일 (저장되는 엣지 데이터는 그대로)
+  const displayEdges = useMemo(() => edges.map(e => {
+    const condition = edgeCondition(e)
+    return {
+      ...edgeDisplayDefaults,
+      ...e,
+      label: [numbers.get(e.target), conditionLabels[condition]].filter(Boolean).join(' · ') || undefined,
+      style: { ...e.style, ...conditionEdgeStyles[condition] }
+    }
+  }), [edges, numbers])
+
+  // 엣지 연결 시: 화살표와 애니메이션 추가. 실패 핸들에서 나가면 failure 조건
   const onConnect = useCallback((params: Edge | Connection) => {
+    record()
     setEdges(e => {
+      const data: PipelineEdgeData = { condition: params.sourceHandle === FAILURE_HANDLE ? 'failure' : 'success' }
       const newEdge = {
         ...params,
         type: 'smoothstep',
@@ -109,39 +237,26 @@ const EditorCanvas = forwardRef<FlowEditorRef, FlowEditorProps>(({ onGraphChange
           type: MarkerType.ArrowClosed,
           width: 20,
           height: 20
-        }
+        },
+        data
       }
       return addEdge(newEdge, e)
     })
-  }, [setEdges])
-
-  // 팔레트 항목 → 사용자가 알아볼 라벨 생성
-  const labelFor = (data: Partial<PipelineNodeData>): string => {
-    switch (data.kind) {
-      case 'git_clone': return 'Git Clone'
-      case 'linux_install': return 'Linux Install'
-      case 'prebuild_node': return `Prebuild Node (${data.manager || 'npm'})`
-      case 'prebuild_python': return 'Prebuild Python'
-      case 'prebuild_java': return 'Prebuild Java'
-      case 'prebuild_custom': return 'Prebuild Custom'
-      case 'build_npm': return 'Build NPM'
-      case 'build_python': return 'Build Python'
-      case 'build_java': return 'Build Java'
-      case 'docker_build': return 'Docker Build'
-      case 'run_tests': return `Run Tests (${data.testType || ''})`
-      case 'deploy': return `Deploy (${data.environment || ''})`
-      case 'notify_slack': return 'Notify Slack'
-      case 'start': return 'Start'
-      default: return data.kind || 'Node'
-    }
-  }
+  }, [setEdges, record])
+
+  // 엣지 속성 패널에서 바꾼 실행 조건 반영
+  const updateEdgeData = useCallback((id: string, patch: PipelineEdgeData) => {
+    record(`edge:${id}:${Object.keys(patch).join(',')}`)
+    setEdges(es => es.map(e => (e.id === id ? { ...e, data: { ...e.data, ...patch } } : e)))
+  }, [setEdges, record])
 
-  // 노드 추가(클릭/드롭 공용). 위치 미지정 시 간단한 가로 오프셋 배치
+  // 노드 추가(클릭/드롭 공용). 위치 미지정 시 마지막 노드 뒤(배치 방향 기준)에 배치
   const addNode = useCallback((data: Partial<PipelineNodeData>, position?: { x: number, y: number }) => {
+    record()
     setNodes(ns => {
       const id = `${data.kind}-${Date.now()}-${Math.round(Math.random()*1e4)}`
-      const pos = position ?? { x: 100 + ns.length * 200, y: 200 }
-      const node: Node<PipelineNodeData> = { id, position: pos, data: { label: labelFor(data), ...(data as PipelineNodeData) } }
+      const pos = position ?? positionAfter(ns[ns.length - 1], layoutDirection)
+      const node: Node<PipelineNodeData> = { id, type: PIPELINE_NODE_TYPE, position: pos, ...handlePositions(layoutDirection), data: { label: labelFor(data), ...(data as PipelineNodeData) } }
       
       // 이전 노드가 있으면 자동으로 연결
       if (ns.length > 0) {
@@ -156,19 +271,7 @@ const EditorCanvas = forwardRef<FlowEditorRef, FlowEditorProps>(({ onGraphChange
             type: MarkerType.ArrowClosed,
             width: 20,
             height: 20
-          },
-          label: `${ns.length}`,
-          labelStyle: {
-            fill: '#fff',
-            fontWeight: 600,
-            fontSize: '12px'
-          },
-          labelBgStyle: {
-            fill: '#1a192b',
-            fillOpacity: 0.8
-          },
-          labelBgPadding: [4, 4] as [number, number],
-          labelBgBorderRadius: 4
+          }
         }
         
         setEdges(es => [...es, edge])
@@ -176,93 +279,61 @@ const EditorCanvas = forwardRef<FlowEditorRef, FlowEditorProps>(({ onGraphChange
       
       return [...ns, node]
     })
+  }, [setNodes, setEdges, record, layoutDirection])
+
+  // 인스펙터 편집 내용을 노드 데이터에 반영
+  const updateNodeData = useCallback((id: string, patch: Partial<PipelineNodeData>) => {
+    // 같은 필드를 연속으로 입력하는 동안은 한 단계로 기록
+    record(`edit:${id}:${Object.keys(patch).join(',')}`)
+    setNodes(ns => ns.map(n => {
+      if (n.id !== id) return n
+      const data = { ...n.data, ...patch }
+      // 자동 생성된 라벨을 그대로 쓰고 있다면 속성 변경에 맞춰 갱신
+      if (!('label' in patch) && n.data.label === labelFor(n.data)) data.label = labelFor(data)
+      return { ...n, data }
+    }))
+  }, [setNodes, record])
+
+  // 선택 해제 (인스펙터 닫기)
+  const clearSelection = useCallback(() => {
+    setNodes(ns => ns.map(n => (n.selected ? { ...n, selected: false } : n)))
+    setEdges(es => es.map(e => (e.selected ? { ...e, selected: false } : e)))
   }, [setNodes, setEdges])
 
-  // 좌측 팔레트 정의 (드래그&클릭으로 추가)
-  const palette = useMemo(() => [
-    { label: 'Git Clone', data: { kind: 'git_clone' as const, repoUrl: 'https://github.com/user/repo.git', branch: 'main' } },
-    { label: 'Linux Install', data: { kind: 'linux_install' as const, osPkg: 'apt' as const, packages: 'git curl' } },
-    { label: 'Prebuild Node', data: { kind: 'prebuild_node' as const, manager: 'npm' as const } },
-    { label: 'Prebuild Python', data: { kind: 'prebuild_python' as const } },
-    { label: 'Prebuild Java', data: { kind: 'prebuild_java' as const } },
-    { label: 'Prebuild Custom', data: { kind: 'prebuild_custom' as const, script: 'echo "custom prebuild"' } },
-    { label: 'Build NPM', data: { kind: 'build_npm' as const } },
-    { label: 'Build Python', data: { kind: 'build_python' as const } },
-    { label: 'Build Java', data: { kind: 'build_java' as const } },
-    { label: 'Docker Build', data: { kind: 'docker_build' as const, dockerfile: 'Dockerfile', tag: 'myapp:latest' } },
-    { label: 'Run Tests', data: { kind: 'run_tests' as const, testType: 'unit' as const, command: 'npm test' } },
-    { label: 'Deploy', data: { kind: 'deploy' as const, environment: 'staging' as const, deployScript: './deploy.sh' } },
-    { label: 'Notify Slack', data: { kind: 'notify_slack' as const, channel: '#deployments', message: 'Deployment completed!' } }
-  ], [])
-
-  // 선형 순서를 계산하여 엣지 라벨(1,2,3...)과 화살표를 갱신
-  useEffect(() => {
-    // 노드의 실제 순서를 기반으로 Edge 순서 계산
-    let changed = false
-    
-    // 노드를 Y 좌표 순으로 정렬하여 실제 순서 파악
-    const sortedNodes = [...nodes].sort((a, b) => a.position.y - b.position.y)
-    
-    const nextEdges = edges.map((edge) => {
-      // source 노드의 정렬된 순서를 찾기
-      const sourceNodeIndex = sortedNodes.findIndex(n => n.id === edge.source)
-      const targetNodeIndex = sortedNodes.findIndex(n => n.id === edge.target)
-      
-      if (sourceNodeIndex === -1 || targetNodeIndex === -1) return edge
-      
-      // source 노드가 target 노드보다 위에 있으면 순서대로 번호 부여
-      let label: string
-      if (sourceNodeIndex < targetNodeIndex) {
-        // 정상적인 순서 (위에서 아래로)
-        label = String(sourceNodeIndex + 1)
-      } else {
-        // 역순인 경우 순서 조정
-        label = String(targetNodeIndex + 1)
-      }
-      
-      const markerEnd = { 
-        type: MarkerType.ArrowClosed,
-        width: 20,
-        height: 20
-      }
-      const needUpdate = edge.label !== label || 
-                        JSON.stringify(edge.markerEnd) !== JSON.stringify(markerEnd) ||
-                        edge.type !== 'smoothstep' ||
-                        !edge.animated
-      if (needUpdate) {
-        changed = true
-        return { 
-          ...edge, 
-          label, 
-          markerEnd,
-          type: 'smoothstep',
-          animated: true,
-          labelStyle: {
-            fill: '#fff',
-            fontWeight: 600,
-            fontSize: '12px'
-          },
-          labelBgStyle: {
-            fill: '#1a192b',
-            fillOpacity: 0.8
-          },
-          labelBgPadding: [4, 4] as [number, number],
-          labelBgBorderRadius: 4
-        }
-      }
-      return edge
-    })
+  // 노드가 정확히 하나 선택되었을 때만 인스펙터 표시. 노드 없이 엣지 하나만 선택되면 엣지 속성 표시
+  const selectedNodes = nodes.filter(n => n.selected)
+  const selectedNode = selectedNodes.length === 1 ? selectedNodes[0] : undefined
+  const selectedEdges = edges.filter(e => e.selected)
+  const selectedEdge = selectedNodes.length === 0 && selectedEdges.length === 1 ? selectedEdges[0] : undefined
+  const nodeLabel = (id: string) => {
+    const node = nodes.find(n => n.id === id)
+    return node ? node.data.label || node.data.kind : id
+  }
 
-    if (changed) setEdges(nextEdges)
-    // 의존성: nodes/edges 변화 시 순서 라벨 재계산
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [nodes, edges])
+  // 템플릿 적용: 그래프 교체 또는 선택한 노드 뒤에 삽입
+  const [templatesOpen, setTemplatesOpen] = useState(false)
+  const applyTemplate = useCallback((template: PipelineTemplate, mode: TemplateApplyMode) => {
+    setTemplatesOpen(false)
+    if (mode === 'replace') {
+      const fragment = instantiateTemplate(template.document)
+      replaceGraph(fragment.nodes, fragment.edges)
+      return
+    }
+    if (!selectedNode) return
+    record()
+    const next = insertTemplateAfter(nodes, edges, selectedNode.id, template.document)
+    setNodes(next.nodes)
+    setEdges(next.edges)
+  }, [replaceGraph, record, selectedNode, nodes, edges, setNodes, setEdges])
 
   return (
-    <div style={{ display: 'grid', gridTemplateColumns: '220px 1fr', gap: 12, height: '100%' }}>
+    <div style={{ display: 'grid', gridTemplateColumns: selectedNode || selectedEdge ? '220px 1fr 280px' : '220px 1fr', gap: 12, height: '100%' }}>
       <div style={{ borderRight: '1px solid rgba(255,255,255,.15)', paddingRight: 12 }}>
+        <button onClick={() => setTemplatesOpen(true)} style={{ width: '100%', marginBottom: 12 }}>
+          Templates…
+        </button>
         <div style={{ fontWeight: 700, marginBottom: 8 }}>Palette</div>
-        {palette.map((p, idx) => (
+        {PALETTE.map((p, idx) => (
           <button
             key={idx}
             draggable
@@ -279,44 +350,91 @@ const EditorCanvas = forwardRef<FlowEditorRef, FlowEditorProps>(({ onGraphChange
         ))}
       </div>
       <div ref={flowRef} style={{ height: '100%', minHeight: 420, position: 'relative' }}>
-        <ReactFlow
-          style={{ width: '100%', height: '100%' }}
-          nodes={nodes}
-          edges={edges}
-          onNodesChange={onNodesChange}
-          onEdgesChange={onEdgesChange}
-          onConnect={onConnect}
-          onInit={(instance) => { setTimeout(() => instance.fitView(), 0) }}
-          onDragOver={(e) => { e.preventDefault(); e.dataTransfer.dropEffect = 'move' }}
-          onDrop={(e) => {
-            e.preventDefault()
-            const raw = e.dataTransfer.getData('application/reactflow')
-            if (!raw) return
-            const data = JSON.parse(raw) as Partial<PipelineNodeData>
-            const pos = rf.screenToFlowPosition({ x: e.clientX, y: e.clientY })
-            addNode(data, pos)
-          }}
-          selectionOnDrag
-          deleteKeyCode={['Backspace', 'Delete']}
-          fitView
-        >
-          <MiniMap />
-          <Controls />
-          <Background gap={16} size={1} />
-          <Panel position="top-right">
-            <span style={{ opacity: .8 }}>노드 {nodes.length} / 엣지 {edges.length}</span>
-          </Panel>
-        </ReactFlow>
+        <CanvasDecorationsContext.Provider value={decorations}>
+          <ReactFlow
+            style={{ width: '100%', height: '100%' }}
+            nodes={nodes}
+            edges={displayEdges}
+            nodeTypes={nodeTypes}
+            onNodesChange={handleNodesChange}
+            onEdgesChange={handleEdgesChange}
+            onConnect={onConnect}
+            onNodeDragStart={history.beginDrag}
+            onNodeDragStop={history.endDrag}
+            onSelectionDragStart={history.beginDrag}
+            onSelectionDragStop={history.endDrag}
+            onInit={(instance) => { setTimeout(() => instance.fitView(), 0) }}
+            onDragOver={(e) => { e.preventDefault(); e.dataTransfer.dropEffect = 'move' }}
+            onDrop={(e) => {
+              e.preventDefault()
+              const raw = e.dataTransfer.getData('application/reactflow')
+              if (!raw) return
+              const data = JSON.parse(raw) as Partial<PipelineNodeData>
+              const pos = rf.screenToFlowPosition({ x: e.clientX, y: e.clientY })
+              addNode(data, pos)
+            }}
+            selectionOnDrag
+            deleteKeyCode={['Backspace', 'Delete']}
+            fitView
+          >
+            <MiniMap />
+            <Controls />
+            <Background gap={16} size={1} />
+            <Panel position="top-left">
+              <div style={{ display: 'flex', gap: 4 }}>
+                <button onClick={undo} disabled={!history.canUndo} title="실행 취소 (Ctrl+Z)">↶ Undo</button>
+                <button onClick={redo} disabled={!history.canRedo} title="다시 실행 (Ctrl+Shift+Z)">↷ Redo</button>
+                <button onClick={() => tidyLayout(layoutDirection)} title="의존성 순서대로 자동 배치">Tidy layout</button>
+                <select
+                  value={layoutDirection}
+                  onChange={(e) => tidyLayout(e.target.value as LayoutDirection)}
+                  title="배치 방향"
+                >
+                  <option value="TB">↓ Top to bottom</option>
+                  <option value="LR">→ Left to right</option>
+                </select>
+              </div>
+            </Panel>
+            <Panel position="top-right">
+              <span style={{ opacity: .8 }}>노드 {nodes.length} / 엣지 {edges.length}</span>
+            </Panel>
+          </ReactFlow>
+        </CanvasDecorationsContext.Provider>
       </div>
+      {selectedNode && (
+        <NodeInspector
+          node={selectedNode}
+          artifactNames={[...new Set(nodes.filter(n => n.id !== selectedNode.id).flatMap(n => producedArtifacts(n.data).map(a => a.name)))]}
+          imageSources={nodes.filter(n => n.data.kind === 'docker_build').map(n => ({ id: n.id, label: n.data.label || n.data.tag || n.id }))}
+          onChange={updateNodeData}
+          onClose={clearSelection}
+        />
+      )}
+      {selectedEdge && (
+        <EdgeInspector
+          edge={selectedEdge}
+          sourceLabel={nodeLabel(selectedEdge.source)}
+          targetLabel={nodeLabel(selectedEdge.target)}
+          onChange={updateEdgeData}
+          onClose={clearSelection}
+        />
+      )}
+      {templatesOpen && (
+        <TemplateDialog
+          anchorLabel={selectedNode ? selectedNode.data.label || selectedNode.data.kind : undefined}
+          onApply={applyTemplate}
+          onClose={() => setTemplatesOpen(false)}
+        />
+      )}
     </div>
   )
 })
 
 // Provider로 감싼 래퍼. useReactFlow 훅 사용을 가능하게 함
-export default function FlowEditor({ onGraphChange }: FlowEditorProps) {
+export default function FlowEditor({ initialGraph, settings, onSettingsChange, onGraphChange }: FlowEditorProps) {
   return (
     <ReactFlowProvider>
-      <EditorCanvas onGraphChange={onGraphChange} />
+      <EditorCanvas initialGraph={initialGraph} settings={settings} onSettingsChange={onSettingsChange} onGraphChange={onGraphChange} />
     </ReactFlowProvider>
   )
 }
@@ -325,7 +443,7 @@ export default function FlowEditor({ onGraphChange }: FlowEditorProps) {
 export const FlowEditorWithRef = forwardRef<FlowEditorRef, FlowEditorProps>((props, ref) => {
   return (
     <ReactFlowProvider>
-      <EditorCanvas ref={ref} onGraphChange={props.onGraphChange} />
+      <EditorCanvas ref={ref} initialGraph={props.initialGraph} settings={props.settings} onSettingsChange={props.onSettingsChange} onGraphChange={props.onGraphChange} />
     </ReactFlowProvider>
   )
 })
@@ -0,0 +1,46 @@
+import { useEffect, useState } from 'react'
+
+/**
+ * 쉼표로 구분된 목록 입력
+ * - 입력 중인 텍스트(끝의 쉼표 등)는 로컬 상태로 유지하고, 파싱한 목록만 onChange로 전달
+ * - 실행 취소 등으로 값이 바깥에서 바뀌면 텍스트를 다시 맞춤
+ */
+
+export interface ListInputProps {
+  value?: string[]
+  placeholder?: string
+  onChange: (items: string[]) => void
+}
+
+const parseList = (text: string): string[] => text.split(',').map(s => s.trim()).filter(Boolean)
+
+export default function ListInput({ value = [], placeholder, onChange }: ListInputProps) {
+  const [text, setText] = useState(value.join(', '))
+  const joined = value.join(',')
+  useEffect(() => {
+    setText(current => (parseList(current).join(',') === joined ? current : joined.split(',').join(', ')))
+  }, [joined])
+  return (
+    <input
+      value={text}
+      placeholder={placeholder}
+      onChange={(e) => {
+        setText(e.target.value)
+        onChange(parseList(e.target.value))
+      }}
+      style={{
+        width: '100%',
+        minWidth: 0,
+        boxSizing: 'border-box',
+        fontSize: '12px',
+        fontFamily: 'monospace',
+        backgroundColor: '#2d3748',
+        color: '#f7fafc',
+        border: '1px solid #4a5568',
+        borderRadius: '4px',
+        padding: '4px 6px',
+        outline: 'none'
+      }}
+    />
+  )
+}
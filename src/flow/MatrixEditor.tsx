@@ -0,0 +1,109 @@
+import { useEffect, useState } from 'react'
+import ListInput from './ListInput'
+import {
+  MAX_MATRIX_COMBINATIONS,
+  formatMatrixEntry,
+  matrixCombinations,
+  parseMatrixEntry,
+  type MatrixEntry,
+  type PipelineMatrix
+} from './matrix'
+
+/**
+ * 매트릭스 빌드 편집기 (build_*, run_tests 노드)
+ * - 축: 이름과 값 목록 (예: node-version = 18, 20, 22)
+ * - include / exclude: 한 줄에 항목 하나 (`os=windows-latest, node-version=18`)
+ * - 실제 실행되는 조합 수 미리보기
+ */
+
+export interface MatrixEditorProps {
+  matrix?: PipelineMatrix
+  onChange: (matrix: PipelineMatrix | undefined) => void
+}
+
+const inputStyle = {
+  width: '100%',
+  minWidth: 0,
+  boxSizing: 'border-box' as const,
+  fontSize: '12px',
+  fontFamily: 'monospace',
+  backgroundColor: '#2d3748',
+  color: '#f7fafc',
+  border: '1px solid #4a5568',
+  borderRadius: '4px',
+  padding: '4px 6px',
+  outline: 'none'
+}
+
+/**
+ * 항목 목록 textarea. 입력 중인 텍스트는 로컬 상태로 유지
+ */
+function EntryList({ label, entries = [], onChange }: { label: string, entries?: MatrixEntry[], onChange: (entries: MatrixEntry[]) => void }) {
+  const formatted = entries.map(formatMatrixEntry).join('\n')
+  const [text, setText] = useState(formatted)
+  useEffect(() => {
+    setText(current => (current.split('\n').filter(l => l.trim()).map(l => formatMatrixEntry(parseMatrixEntry(l))).join('\n') === formatted ? current : formatted))
+  }, [formatted])
+  return (
+    <label style={{ display: 'block', marginBottom: 6 }}>
+      <div style={{ opacity: .7, marginBottom: 2 }}>{label}</div>
+      <textarea
+        value={text}
+        rows={2}
+        placeholder="os=windows-latest, node-version=18"
+        onChange={(e) => {
+          setText(e.target.value)
+          onChange(e.target.value.split('\n').filter(l => l.trim()).map(parseMatrixEntry).filter(entry => Object.keys(entry).length > 0))
+        }}
+        style={{ ...inputStyle, resize: 'vertical' }}
+      />
+    </label>
+  )
+}
+
+export default function MatrixEditor({ matrix, onChange }: MatrixEditorProps) {
+  const axes = Object.entries(matrix?.axes ?? {})
+  const update = (patch: Partial<PipelineMatrix>) => {
+    const next = { axes: matrix?.axes ?? {}, ...matrix, ...patch }
+    const empty = Object.keys(next.axes).length === 0 && !next.include?.length && !next.exclude?.length
+    onChange(empty ? undefined : next)
+  }
+  const updateAxis = (index: number, key: string, values: string[]) =>
+    update({ axes: Object.fromEntries(axes.map((entry, i) => (i === index ? [key, values] : entry))) })
+
+  const combinations = matrix ? matrixCombinations(matrix).length : 0
+
+  return (
+    <div style={{ fontSize: '12px' }}>
+      {axes.map(([key, values], i) => (
+        <div key={i} style={{ display: 'grid', gridTemplateColumns: '2fr 3fr auto', gap: 4, marginBottom: 4 }}>
+          <input value={key} placeholder="axis" onChange={(e) => updateAxis(i, e.target.value, values)} style={inputStyle} />
+          <ListInput value={values} placeholder="18, 20, 22" onChange={(v) => updateAxis(i, key, v)} />
+          <button
+            onClick={() => update({ axes: Object.fromEntries(axes.filter((_, j) => j !== i)) })}
+            title="축 삭제"
+            style={{ padding: '0 6px' }}
+          >
+            ×
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={() => update({ axes: { ...matrix?.axes, [axes.length === 0 ? 'node-version' : `axis${axes.length + 1}`]: [] } })}
+        title="node-version / python-version / java-version 축은 setup 액션 버전, os 축은 runs-on에 사용됩니다"
+        style={{ fontSize: '12px', marginBottom: 6 }}
+      >
+        + axis
+      </button>
+      {matrix && (
+        <>
+          <EntryList label="include" entries={matrix.include} onChange={(include) => update({ include })} />
+          <EntryList label="exclude" entries={matrix.exclude} onChange={(exclude) => update({ exclude })} />
+          <div style={{ color: combinations > MAX_MATRIX_COMBINATIONS ? '#f56565' : '#a0aec0' }}>
+            {combinations}개 조합{combinations > MAX_MATRIX_COMBINATIONS ? ` (최대 ${MAX_MATRIX_COMBINATIONS}개)` : ''}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
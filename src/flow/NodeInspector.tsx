@@ -0,0 +1,213 @@
+import type { Node } from 'reactflow'
+import ArtifactEditor from './ArtifactEditor'
+import { supportsCache } from './cache'
+import CacheEditor from './CacheEditor'
+import type { PipelineNodeData } from './codegen'
+import DockerEditor from './DockerEditor'
+import EnvEditor from './EnvEditor'
+import MatrixEditor from './MatrixEditor'
+import { supportsMatrix } from './matrix'
+import TriggerEditor from './TriggerEditor'
+import { fieldWarning, isRequired, nodeToggles, validateField, visibleFields, type FieldSpec } from './nodeSchema'
+
+/**
+ * 선택된 노드의 속성을 편집하는 사이드 패널
+ * - 노드 종류별 필드 정의(NODE_FIELDS)에 따라 폼을 구성
+ * - 값이 바뀔 때마다 onChange로 즉시 반영하고, 필드별 검증 결과와 경고를 아래에 표시
+ * - 노드 전용 환경 변수와 시크릿 (Start는 파이프라인 설정에서 관리)
+ * - 가져온 액션 step 노드(`uses`)는 액션 입력(`with:`) 편집
+ * - step 옵션(작업 디렉터리, GitHub Actions `if`)과 노드가 만들고 사용하는 아티팩트
+ * - Start 노드는 워크플로 트리거, 빌드/테스트 노드는 매트릭스, prebuild 노드는 의존성 캐시 편집
+ * - Docker Build 노드는 레지스트리 push, 태그, 플랫폼 등 빌드 옵션 편집
+ * - Kubernetes 배포 노드는 배포할 이미지를 Docker Build 노드에서 선택 가능
+ */
+
+export interface NodeInspectorProps {
+  node: Node<PipelineNodeData>
+  /** 다른 노드가 만드는 아티팩트 이름 */
+  artifactNames?: string[]
+  /** 배포 이미지로 참조할 수 있는 Docker Build 노드 */
+  imageSources?: { id: string, label: string }[]
+  onChange: (id: string, patch: Partial<PipelineNodeData>) => void
+  onClose: () => void
+}
+
+const inputStyle = {
+  width: '100%',
+  boxSizing: 'border-box' as const,
+  fontSize: '12px',
+  backgroundColor: '#2d3748',
+  color: '#f7fafc',
+  border: '1px solid #4a5568',
+  borderRadius: '4px',
+  padding: '6px 8px',
+  outline: 'none'
+}
+
+export default function NodeInspector({ node, artifactNames = [], imageSources = [], onChange, onClose }: NodeInspectorProps) {
+  const fields = visibleFields(node.data)
+  const toggles = nodeToggles(node.data.kind)
+
+  const renderInput = (field: FieldSpec, value: string, invalid: boolean) => {
+    const style = { ...inputStyle, borderColor: invalid ? '#f56565' : '#4a5568' }
+    const update = (v: string) => onChange(node.id, { [field.key]: v })
+
+    switch (field.input) {
+      case 'select':
+        return (
+          <select value={value} onChange={(e) => update(e.target.value)} style={style}>
+            {field.options?.map(o => <option key={o} value={o}>{o}</option>)}
+          </select>
+        )
+      case 'textarea':
+        return (
+          <textarea
+            value={value}
+            rows={4}
+            placeholder={field.placeholder}
+            onChange={(e) => update(e.target.value)}
+            style={{ ...style, fontFamily: 'monospace', resize: 'vertical' }}
+          />
+        )
+      default:
+        return <input value={value} placeholder={field.placeholder} onChange={(e) => update(e.target.value)} style={style} />
+    }
+  }
+
+  return (
+    <div style={{ borderLeft: '1px solid rgba(255,255,255,.15)', paddingLeft: 12, overflow: 'auto' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8 }}>
+        <div>
+          <div style={{ fontWeight: 700 }}>Properties</div>
+          <div style={{ fontSize: '12px', opacity: .7 }}>{node.data.kind}</div>
+        </div>
+        <button onClick={onClose} title="닫기" style={{ padding: '2px 8px' }}>×</button>
+      </div>
+      {fields.map(field => {
+        const value = node.data[field.key] ?? ''
+        const error = validateField(field, value, node.data)
+        const warning = error ? null : fieldWarning(field, value)
+        return (
+          <label key={field.key} style={{ display: 'block', marginBottom: 10, fontSize: '12px' }}>
+            <div style={{ marginBottom: 4 }}>
+              {field.label}{isRequired(field, node.data) && <span style={{ color: '#f56565' }}> *</span>}
+            </div>
+            {renderInput(field, value, !!error)}
+            {error && <div style={{ color: '#f56565', marginTop: 4 }}>{error}</div>}
+            {warning && <div style={{ color: '#ecc94b', marginTop: 4 }}>{warning}</div>}
+          </label>
+        )
+      })}
+      {node.data.uses !== undefined && (
+        <div style={{ borderTop: '1px solid rgba(255,255,255,.15)', paddingTop: 8, marginBottom: 10 }}>
+          <div style={{ fontWeight: 700, fontSize: '12px', marginBottom: 6 }}>Action inputs</div>
+          <EnvEditor
+            env={node.data.with ?? {}}
+            secrets={[]}
+            actionInputs
+            onChange={(inputs) => onChange(node.id, { with: Object.keys(inputs).length > 0 ? inputs : undefined })}
+          />
+        </div>
+      )}
+      {node.data.kind === 'deploy_k8s' && (
+        <label style={{ display: 'block', marginBottom: 10, fontSize: '12px' }}>
+          <div style={{ marginBottom: 4 }}>Image from</div>
+          <select value={node.data.imageFrom ?? ''} onChange={(e) => onChange(node.id, { imageFrom: e.target.value || undefined })} style={inputStyle}>
+            <option value="">(직접 입력)</option>
+            {imageSources.map(source => <option key={source.id} value={source.id}>{source.label}</option>)}
+            {node.data.imageFrom && !imageSources.some(source => source.id === node.data.imageFrom) && (
+              <option value={node.data.imageFrom}>{node.data.imageFrom} (없음)</option>
+            )}
+          </select>
+        </label>
+      )}
+      {toggles.map(toggle => (
+        <label key={toggle.key} title={toggle.description} style={{ display: 'flex', alignItems: 'center', gap: 6, marginBottom: 10, fontSize: '12px' }}>
+          <input
+            type="checkbox"
+            checked={!!node.data[toggle.key]}
+            onChange={(e) => onChange(node.id, { [toggle.key]: e.target.checked || undefined })}
+          />
+          {toggle.label}
+        </label>
+      ))}
+      {node.data.kind === 'start' && (
+        <div style={{ borderTop: '1px solid rgba(255,255,255,.15)', paddingTop: 8 }}>
+          <div style={{ fontWeight: 700, fontSize: '12px', marginBottom: 6 }}>Triggers</div>
+          <TriggerEditor triggers={node.data.triggers} onChange={(triggers) => onChange(node.id, { triggers })} />
+        </div>
+      )}
+      {supportsMatrix(node.data.kind) && (
+        <div style={{ borderTop: '1px solid rgba(255,255,255,.15)', paddingTop: 8, marginBottom: 10 }}>
+          <div style={{ fontWeight: 700, fontSize: '12px', marginBottom: 6 }}>Matrix</div>
+          <MatrixEditor matrix={node.data.matrix} onChange={(matrix) => onChange(node.id, { matrix })} />
+        </div>
+      )}
+      {supportsCache(node.data.kind) && (
+        <div style={{ borderTop: '1px solid rgba(255,255,255,.15)', paddingTop: 8, marginBottom: 10 }}>
+          <div style={{ fontWeight: 700, fontSize: '12px', marginBottom: 6 }}>Cache</div>
+          <CacheEditor data={node.data} onChange={(cache) => onChange(node.id, { cache })} />
+        </div>
+      )}
+      {node.data.kind === 'docker_build' && (
+        <div style={{ borderTop: '1px solid rgba(255,255,255,.15)', paddingTop: 8, marginBottom: 10 }}>
+          <div style={{ fontWeight: 700, fontSize: '12px', marginBottom: 6 }}>Docker</div>
+          <DockerEditor image={node.data.tag ?? ''} options={node.data.docker} onChange={(docker) => onChange(node.id, { docker })} />
+        </div>
+      )}
+      {node.data.kind !== 'start' && (
+        <div style={{ borderTop: '1px solid rgba(255,255,255,.15)', paddingTop: 8, marginBottom: 10 }}>
+          <div style={{ fontWeight: 700, fontSize: '12px', marginBottom: 6 }}>Step</div>
+          <label style={{ display: 'block', marginBottom: 6, fontSize: '12px' }}>
+            <div style={{ marginBottom: 4 }}>Working directory</div>
+            <input
+              value={node.data.workingDirectory ?? ''}
+              placeholder="."
+              disabled={!!node.data.uses}
+              title={node.data.uses ? '액션 step에는 작업 디렉터리를 지정할 수 없습니다' : undefined}
+              onChange={(e) => onChange(node.id, { workingDirectory: e.target.value || undefined })}
+              style={{ ...inputStyle, fontFamily: 'monospace' }}
+            />
+          </label>
+          <label style={{ display: 'block', fontSize: '12px' }}>
+            <div style={{ marginBottom: 4 }}>Run if</div>
+            <input
+              value={node.data.condition ?? ''}
+              placeholder="github.event_name == 'push'"
+              onChange={(e) => onChange(node.id, { condition: e.target.value || undefined })}
+              style={{ ...inputStyle, fontFamily: 'monospace' }}
+            />
+            <div style={{ marginTop: 4, color: '#a0aec0' }}>GitHub Actions step 조건 (셸 실행에서는 무시)</div>
+          </label>
+        </div>
+      )}
+      {node.data.kind !== 'start' && (
+        <div style={{ borderTop: '1px solid rgba(255,255,255,.15)', paddingTop: 8, marginBottom: 10 }}>
+          <div style={{ fontWeight: 700, fontSize: '12px', marginBottom: 6 }}>Artifacts</div>
+          <ArtifactEditor
+            produces={node.data.produces ?? []}
+            consumes={node.data.consumes ?? []}
+            available={artifactNames}
+            onChange={(produces, consumes) => onChange(node.id, {
+              produces: produces.length > 0 ? produces : undefined,
+              consumes: consumes.length > 0 ? consumes : undefined
+            })}
+          />
+        </div>
+      )}
+      {node.data.kind !== 'start' && (
+        <div style={{ borderTop: '1px solid rgba(255,255,255,.15)', paddingTop: 8 }}>
+          <div style={{ fontWeight: 700, fontSize: '12px', marginBottom: 6 }}>Environment</div>
+          <EnvEditor
+            env={node.data.env ?? {}}
+            secrets={node.data.secrets ?? []}
+            onChange={(env, secrets) => onChange(node.id, {
+              env: Object.keys(env).length > 0 ? env : undefined,
+              secrets: secrets.length > 0 ? secrets : undefined
+            })}
+          />
+        </div>
+      )}
+    </div>
+  )
+}
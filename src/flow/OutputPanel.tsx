@@ -1,44 +1,89 @@
 import { useEffect, useMemo, useState } from 'react'
 import type { Edge, Node } from 'reactflow'
-import { generateYAML, generateShell, generateShellFromYAML, generateYAMLFromShell } from './codegen'
-import type { PipelineNodeData } from './codegen'
+import { generateYAML, generateShell, generateGitLabCI, generateJenkinsfile, generateShellFromYAML, generateYAMLFromShell } from './codegen'
+import { DEFAULT_PIPELINE_SETTINGS, type PipelineNodeData, type PipelineSettings } from './codegen'
+import { validateGraph } from './validation'
+import CodeEditor, { HighlightedCode } from './CodeEditor'
+import { shellDiagnostics, yamlDiagnostics, type CodeDiagnostic, type CodeLanguage } from './syntax'
 
 /**
- * 그래프 상태를 받아 YAML / Shell 출력을 실시간으로 보여주는 패널
- * - 탭 전환으로 두 가지 포맷을 확인
- * - 코드를 클릭하면 편집 가능한 textarea로 변경
- * - 편집된 내용을 저장할 수 있음
+ * 그래프 상태를 받아 YAML / Shell / GitLab CI / Jenkinsfile 출력을 실시간으로 보여주는 패널
+ * - 탭 전환으로 각 포맷을 확인
+ * - 코드를 클릭하면 문법 강조 편집기로 변경 (줄 번호, 들여쓰기, 괄호 자동 닫기)
+ * - 편집된 내용을 저장할 수 있음. 구문 오류나 그래프로 가져올 수 없는 내용은 편집기에 표시하고 저장하지 않음
+ * - GitLab CI / Jenkinsfile 편집 내용은 그래프로 역변환하지 않으므로, 그래프가 바뀌어 생성 결과가 달라지면 버리고 새 결과를 표시
+ * - 그래프 검증 결과를 문제 목록으로 표시하고, 클릭 시 해당 노드로 이동
  */
 
+type OutputTab = 'yaml' | 'shell' | 'gitlab' | 'jenkins'
+
+const TABS: { id: OutputTab, label: string, language: CodeLanguage }[] = [
+  { id: 'yaml', label: 'YAML', language: 'yaml' },
+  { id: 'shell', label: 'Shell', language: 'shell' },
+  { id: 'gitlab', label: 'GitLab CI', language: 'yaml' },
+  { id: 'jenkins', label: 'Jenkinsfile', language: 'groovy' }
+]
+
+const languageOf = (tab: OutputTab): CodeLanguage => TABS.find(t => t.id === tab)!.language
+
+/**
+ * 편집 중인 코드의 오류. YAML/Shell은 그래프로 가져오므로 가져올 단계가 있는지도 검사
+ */
+const editDiagnostics = (tab: OutputTab, content: string): CodeDiagnostic[] => {
+  switch (tab) {
+    case 'yaml': return yamlDiagnostics(content, true)
+    case 'shell': return shellDiagnostics(content, true)
+    case 'gitlab': return yamlDiagnostics(content)
+    case 'jenkins': return []
+  }
+}
+
 export interface OutputPanelProps {
   nodes: Node<PipelineNodeData>[]
   edges: Edge[]
+  settings?: PipelineSettings
+  onSettingsChange?: (settings: PipelineSettings) => void
   onYAMLUpdate?: (yamlContent: string) => void
   onShellUpdate?: (shellContent: string) => void
+  onFocusNode?: (nodeId: string) => void
 }
 
-export default function OutputPanel({ nodes, edges, onYAMLUpdate, onShellUpdate }: OutputPanelProps) {
-  const [tab, setTab] = useState<'yaml' | 'shell'>('yaml')
+export default function OutputPanel({ nodes, edges, settings = DEFAULT_PIPELINE_SETTINGS, onSettingsChange, onYAMLUpdate, onShellUpdate, onFocusNode }: OutputPanelProps) {
+  const [tab, setTab] = useState<OutputTab>('yaml')
   const [isEditing, setIsEditing] = useState(false)
   const [editedContent, setEditedContent] = useState('')
-  const [editingTab, setEditingTab] = useState<'yaml' | 'shell' | null>(null)
+  const [editingTab, setEditingTab] = useState<OutputTab | null>(null)
   const [lastSavedYAML, setLastSavedYAML] = useState('') // 마지막으로 저장된 YAML 저장
   const [lastSavedShell, setLastSavedShell] = useState('') // 마지막으로 저장된 Shell 저장
+  // 그래프로 역변환하지 않는 탭의 저장 내용과, 편집을 시작할 때의 생성 결과 (생성 결과가 바뀌면 편집 내용은 더 이상 표시하지 않음)
+  const [lastSavedExports, setLastSavedExports] = useState<Partial<Record<OutputTab, { content: string, generated: string }>>>({})
 
-  const shell = useMemo(() => generateShell(nodes, edges), [nodes, edges])
-  const yaml = useMemo(() => generateYAML(nodes, edges), [nodes, edges])
+  const shell = useMemo(
+    () => generateShell(nodes, edges, { robust: settings.robustShell, env: settings.env, secrets: settings.secrets }),
+    [nodes, edges, settings.robustShell, settings.env, settings.secrets]
+  )
+  const yaml = useMemo(() => generateYAML(nodes, edges, settings), [nodes, edges, settings])
+  const gitlab = useMemo(() => generateGitLabCI(nodes, edges), [nodes, edges])
+  const jenkins = useMemo(() => generateJenkinsfile(nodes, edges), [nodes, edges])
+  const diagnostics = useMemo(() => validateGraph(nodes, edges, settings), [nodes, edges, settings])
+  const codeDiagnostics = useMemo(
+    () => (isEditing && editingTab ? editDiagnostics(editingTab, editedContent) : []),
+    [isEditing, editingTab, editedContent]
+  )
+  const codeErrors = codeDiagnostics.filter(d => d.severity === 'error').length
 
   useEffect(() => {
     // no-op; place for future side effects (copy buttons etc.)
   }, [tab])
 
-  const handleCodeClick = (content: string, tabType: 'yaml' | 'shell') => {
+  const handleCodeClick = (content: string, tabType: OutputTab) => {
     setEditedContent(content)
     setEditingTab(tabType)
     setIsEditing(true)
   }
 
   const handleSave = () => {
+    if (codeErrors > 0) return
     // YAML 편집 시에만 onYAMLUpdate 호출
     if (editingTab === 'yaml' && onYAMLUpdate) {
       onYAMLUpdate(editedContent)
@@ -71,6 +116,9 @@ export default function OutputPanel({ nodes, edges, onYAMLUpdate, onShellUpdate
         console.error('YAML 자동 생성 실패:', error)
         setLastSavedYAML('') // 실패 시 YAML 초기화
       }
+    } else if (editingTab === 'gitlab' || editingTab === 'jenkins') {
+      // GitLab CI / Jenkinsfile은 그래프로 역변환하지 않고 편집 내용만 보관
+      setLastSavedExports(prev => ({ ...prev, [editingTab]: { content: editedContent, generated: editingTab === 'gitlab' ? gitlab : jenkins } }))
     }
     
     // 여기서 편집된 내용을 처리할 수 있습니다
@@ -93,33 +141,24 @@ export default function OutputPanel({ nodes, edges, onYAMLUpdate, onShellUpdate
           <div style={{ marginBottom: '10px', fontSize: '14px', color: '#888' }}>
             편집 중: {editingTab?.toUpperCase()}
           </div>
-          <textarea
+          <CodeEditor
             value={editedContent}
-            onChange={(e) => setEditedContent(e.target.value)}
-            style={{
-              flex: 1,
-              fontFamily: 'monospace',
-              fontSize: '12px',
-              backgroundColor: '#2d3748',
-              color: '#f7fafc',
-              border: '1px solid #4a5568',
-              borderRadius: '4px',
-              padding: '8px',
-              resize: 'none',
-              outline: 'none'
-            }}
-            placeholder="코드를 편집하세요..."
+            language={languageOf(editingTab ?? tab)}
+            diagnostics={codeDiagnostics}
+            onChange={setEditedContent}
           />
-          <div style={{ display: 'flex', gap: '8px', marginTop: '10px' }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginTop: '10px' }}>
             <button
               onClick={handleSave}
+              disabled={codeErrors > 0}
+              title={codeErrors > 0 ? '오류를 수정해야 저장할 수 있습니다' : undefined}
               style={{
                 padding: '6px 12px',
-                backgroundColor: '#4CAF50',
+                backgroundColor: codeErrors > 0 ? '#718096' : '#4CAF50',
                 color: 'white',
                 border: 'none',
                 borderRadius: '4px',
-                cursor: 'pointer'
+                cursor: codeErrors > 0 ? 'not-allowed' : 'pointer'
               }}
             >
               저장
@@ -137,68 +176,62 @@ export default function OutputPanel({ nodes, edges, onYAMLUpdate, onShellUpdate
             >
               취소
             </button>
+            {codeErrors > 0 && <span style={{ fontSize: '12px', color: '#feb2b2' }}>오류 {codeErrors}개</span>}
           </div>
         </div>
       )
     }
 
     // 편집 모드가 아닐 때는 마지막으로 저장된 내용이나 생성된 내용을 표시
-    const displayYAML = lastSavedYAML || yaml
-    const displayShell = lastSavedShell || shell
+    const exported = (id: 'gitlab' | 'jenkins', generated: string) => {
+      const saved = lastSavedExports[id]
+      return saved && saved.generated === generated ? saved.content : undefined
+    }
+    const manualEdit: Partial<Record<OutputTab, string>> = { gitlab: exported('gitlab', gitlab), jenkins: exported('jenkins', jenkins) }
+    const display: Record<OutputTab, string> = {
+      yaml: lastSavedYAML || yaml,
+      shell: lastSavedShell || shell,
+      gitlab: manualEdit.gitlab ?? gitlab,
+      jenkins: manualEdit.jenkins ?? jenkins
+    }
 
     return (
       <div style={{ height: '100%' }}>
-        {tab === 'yaml' ? (
-          <pre 
-            style={{ 
-              whiteSpace: 'pre-wrap', 
-              cursor: 'pointer',
-              padding: '8px',
-              borderRadius: '4px',
-              backgroundColor: '#2d3748',
-              color: '#f7fafc',
-              border: '1px solid transparent',
-              transition: 'border-color 0.2s ease'
-            }}
-            onMouseEnter={(e) => {
-              e.currentTarget.style.borderColor = '#4a5568'
-              e.currentTarget.style.backgroundColor = '#4a5568'
-            }}
-            onMouseLeave={(e) => {
-              e.currentTarget.style.borderColor = 'transparent'
-              e.currentTarget.style.backgroundColor = '#2d3748'
-            }}
-            onClick={() => handleCodeClick(displayYAML, 'yaml')}
-            title="클릭하여 편집"
-          >
-            {displayYAML}
-          </pre>
-        ) : (
-          <pre 
-            style={{ 
-              whiteSpace: 'pre-wrap', 
-              cursor: 'pointer',
-              padding: '8px',
-              borderRadius: '4px',
-              backgroundColor: '#2d3748',
-              color: '#f7fafc',
-              border: '1px solid transparent',
-              transition: 'border-color 0.2s ease'
-            }}
-            onMouseEnter={(e) => {
-              e.currentTarget.style.borderColor = '#4a5568'
-              e.currentTarget.style.backgroundColor = '#4a5568'
-            }}
-            onMouseLeave={(e) => {
-              e.currentTarget.style.borderColor = 'transparent'
-              e.currentTarget.style.backgroundColor = '#2d3748'
-            }}
-            onClick={() => handleCodeClick(displayShell, 'shell')}
-            title="클릭하여 편집"
-          >
-            {displayShell}
-          </pre>
+        {manualEdit[tab] !== undefined && (
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 6, fontSize: '12px', color: '#faf089' }}>
+            ✎ 수동 편집됨 (그래프를 변경하면 생성 결과로 바뀝니다)
+            <button
+              onClick={() => setLastSavedExports(prev => ({ ...prev, [tab]: undefined }))}
+              style={{ marginLeft: 'auto', fontSize: '12px', padding: '2px 8px' }}
+            >
+              생성 결과로 되돌리기
+            </button>
+          </div>
         )}
+        <pre 
+          style={{ 
+            whiteSpace: 'pre-wrap', 
+            cursor: 'pointer',
+            padding: '8px',
+            borderRadius: '4px',
+            backgroundColor: '#2d3748',
+            color: '#f7fafc',
+            border: '1px solid transparent',
+            transition: 'border-color 0.2s ease'
+          }}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.borderColor = '#4a5568'
+            e.currentTarget.style.backgroundColor = '#4a5568'
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.borderColor = 'transparent'
+            e.currentTarget.style.backgroundColor = '#2d3748'
+          }}
+          onClick={() => handleCodeClick(display[tab], tab)}
+          title="클릭하여 편집"
+        >
+          <HighlightedCode text={display[tab]} language={languageOf(tab)} />
+        </pre>
       </div>
     )
   }
@@ -206,40 +239,69 @@ export default function OutputPanel({ nodes, edges, onYAMLUpdate, onShellUpdate
   return (
     <div style={{ height: '100%', display: 'flex', flexDirection: 'column' }}>
       <div style={{ display: 'flex', gap: 8, borderBottom: '1px solid rgba(255,255,255,.15)', paddingBottom: 8, marginBottom: 8 }}>
-        <button 
-          onClick={() => setTab('yaml')} 
-          style={{
-            padding: '8px 16px',
-            backgroundColor: tab === 'yaml' ? '#4a5568' : '#2d3748',
-            color: '#f7fafc',
-            border: '1px solid #4a5568',
-            borderRadius: '6px',
-            cursor: 'pointer',
-            fontWeight: tab === 'yaml' ? '600' : '400',
-            transition: 'all 0.2s ease'
-          }}
-        >
-          YAML
-        </button>
-        <button 
-          onClick={() => setTab('shell')} 
-          style={{
-            padding: '8px 16px',
-            backgroundColor: tab === 'shell' ? '#4a5568' : '#2d3748',
-            color: '#f7fafc',
-            border: '1px solid #4a5568',
-            borderRadius: '6px',
-            cursor: 'pointer',
-            fontWeight: tab === 'shell' ? '600' : '400',
-            transition: 'all 0.2s ease'
-          }}
-        >
-          Shell
-        </button>
+        {TABS.map(t => (
+          <button 
+            key={t.id}
+            onClick={() => setTab(t.id)} 
+            style={{
+              padding: '8px 16px',
+              backgroundColor: tab === t.id ? '#4a5568' : '#2d3748',
+              color: '#f7fafc',
+              border: '1px solid #4a5568',
+              borderRadius: '6px',
+              cursor: 'pointer',
+              fontWeight: tab === t.id ? '600' : '400',
+              transition: 'all 0.2s ease'
+            }}
+          >
+            {t.label}
+          </button>
+        ))}
+        {tab === 'shell' && (
+          <label
+            title="set -Eeuo pipefail, 단계별 함수, 소요 시간 출력, 실패 단계 보고"
+            style={{ marginLeft: 'auto', display: 'flex', alignItems: 'center', gap: 6, fontSize: '12px' }}
+          >
+            <input type="checkbox" checked={settings.robustShell} onChange={(e) => onSettingsChange?.({ ...settings, robustShell: e.target.checked })} />
+            Robust mode
+          </label>
+        )}
+        {tab === 'yaml' && (
+          <label
+            title="노드마다 이름과 id가 있는 step을 만듭니다. 끄면 job의 노드 스크립트를 run step 하나로 묶습니다"
+            style={{ marginLeft: 'auto', display: 'flex', alignItems: 'center', gap: 6, fontSize: '12px' }}
+          >
+            <input type="checkbox" checked={settings.stepPerNode} onChange={(e) => onSettingsChange?.({ ...settings, stepPerNode: e.target.checked })} />
+            One step per node
+          </label>
+        )}
       </div>
       <div style={{ flex: 1, overflow: 'auto' }}>
         {renderContent()}
       </div>
+      {diagnostics.length > 0 && (
+        <div style={{ borderTop: '1px solid rgba(255,255,255,.15)', marginTop: 8, paddingTop: 8, maxHeight: 160, overflow: 'auto' }}>
+          <div style={{ fontWeight: 700, fontSize: '12px', marginBottom: 4 }}>Problems ({diagnostics.length})</div>
+          {diagnostics.map(d => (
+            <div
+              key={d.id}
+              onClick={() => { if (d.nodeId && onFocusNode) onFocusNode(d.nodeId) }}
+              title={d.nodeId ? '클릭하여 노드로 이동' : undefined}
+              style={{
+                fontSize: '12px',
+                padding: '3px 6px',
+                borderRadius: '4px',
+                cursor: d.nodeId ? 'pointer' : 'default',
+                color: d.severity === 'error' ? '#feb2b2' : '#faf089'
+              }}
+              onMouseEnter={(e) => { e.currentTarget.style.backgroundColor = '#2d3748' }}
+              onMouseLeave={(e) => { e.currentTarget.style.backgroundColor = 'transparent' }}
+            >
+              {d.severity === 'error' ? '⛔' : '⚠'} {d.message}
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   )
 }
@@ -0,0 +1,178 @@
+import { memo, useContext } from 'react'
+import { Handle, Position, type NodeProps } from 'reactflow'
+import { FAILURE_HANDLE, SUCCESS_HANDLE, nodeCategory, type NodeCategory, type PipelineNodeData, type PipelineNodeKind } from './codegen'
+import { CanvasDecorationsContext } from './canvasContext'
+import { matrixCombinations } from './matrix'
+import { triggerSummary } from './triggers'
+
+/**
+ * 파이프라인 노드 카드 (React Flow 커스텀 노드)
+ * - 실행 순서 단계 번호, 종류별 아이콘, 라벨, 주요 속성 요약
+ * - 분류(prebuild/build/test/deploy/notify)별 색상
+ * - 검증 결과와 실행 옵션 배지
+ * - 입력 핸들 1개, 출력 핸들 2개 (성공 경로 / 실패 경로)
+ */
+
+const CATEGORY_COLORS: Record<NodeCategory, string> = {
+  prebuild: '#3182ce',
+  build: '#dd6b20',
+  test: '#38a169',
+  deploy: '#e53e3e',
+  notify: '#d69e2e'
+}
+
+const START_COLOR = '#718096'
+const FAILURE_COLOR = '#e53e3e'
+
+const KIND_ICONS: Record<PipelineNodeKind, string> = {
+  start: '🚀',
+  git_clone: '📥',
+  linux_install: '🐧',
+  prebuild_node: '🟢',
+  prebuild_python: '🐍',
+  prebuild_java: '☕',
+  prebuild_custom: '🛠',
+  build_npm: '📦',
+  build_python: '📦',
+  build_java: '📦',
+  docker_build: '🐳',
+  run_tests: '🧪',
+  deploy: '🚢',
+  deploy_k8s: '☸',
+  notify_slack: '💬'
+}
+
+// 한 줄 요약이 너무 길면 잘라서 표시
+const truncate = (s: string, max = 32) => (s.length > max ? `${s.slice(0, max - 1)}…` : s)
+
+/**
+ * 카드에 표시할 주요 속성 (종류별)
+ */
+const summaryLines = (data: PipelineNodeData): string[] => {
+  switch (data.kind) {
+    case 'start':
+      return [triggerSummary(data.triggers)].filter(Boolean)
+    case 'git_clone': {
+      const repo = (data.repoUrl || '').replace(/\.git$/, '').split(/[/:]/).filter(Boolean).slice(-2).join('/')
+      return [repo, data.branch ? `⎇ ${data.branch}` : ''].filter(Boolean)
+    }
+    case 'linux_install':
+      return [`${data.osPkg || 'apt'} · ${data.packages || ''}`]
+    case 'prebuild_node':
+      return [data.manager || 'npm']
+    case 'prebuild_java':
+      return [data.buildTool || 'gradle']
+    case 'prebuild_custom':
+      return [data.uses || (data.script || '').split('\n')[0]].filter(Boolean)
+    case 'docker_build':
+      return [data.tag || '', data.dockerfile && data.dockerfile !== 'Dockerfile' ? data.dockerfile : ''].filter(Boolean)
+    case 'run_tests':
+      return [data.command ? `$ ${data.command.split('\n')[0]}` : ''].filter(Boolean)
+    case 'deploy':
+      return [data.environment || '']
+    case 'deploy_k8s':
+      return data.deployTool === 'helm'
+        ? [`helm · ${data.release || ''}`, data.chart || ''].filter(Boolean)
+        : [`kubectl · ${data.namespace || 'default'}`, data.manifests || ''].filter(Boolean)
+    case 'notify_slack':
+      return [data.channel || '']
+    default:
+      return data.command ? [`$ ${data.command.split('\n')[0]}`] : []
+  }
+}
+
+const badgeStyle = (background: string) => ({
+  fontSize: '10px',
+  padding: '0 5px',
+  borderRadius: 8,
+  color: '#fff',
+  backgroundColor: background,
+  whiteSpace: 'nowrap' as const
+})
+
+function PipelineNodeCard({ id, data, selected, sourcePosition = Position.Bottom, targetPosition = Position.Top }: NodeProps<PipelineNodeData>) {
+  const { diagnosticsByNode, stepNumbers } = useContext(CanvasDecorationsContext)
+  const diagnostics = diagnosticsByNode.get(id) ?? []
+  const step = stepNumbers.get(id)
+  const hasError = diagnostics.some(d => d.severity === 'error')
+  const isStart = data.kind === 'start'
+  const color = isStart ? START_COLOR : CATEGORY_COLORS[nodeCategory(data.kind)]
+  // 실패 경로 핸들은 성공 경로와 겹치지 않도록 옆면에 배치
+  const failurePosition = sourcePosition === Position.Bottom || sourcePosition === Position.Top ? Position.Right : Position.Bottom
+
+  return (
+    <div
+      style={{
+        width: 200,
+        boxSizing: 'border-box',
+        fontSize: '12px',
+        color: '#f7fafc',
+        backgroundColor: '#1a202c',
+        border: `1px solid ${selected ? '#f7fafc' : color}`,
+        borderLeft: `4px solid ${color}`,
+        borderRadius: 6,
+        padding: '6px 8px',
+        boxShadow: selected ? `0 0 0 2px ${color}66` : undefined
+      }}
+    >
+      {!isStart && <Handle type="target" position={targetPosition} />}
+      <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+        {step && (
+          <span title="실행 순서" style={{ ...badgeStyle(color), fontWeight: 700 }}>{step}</span>
+        )}
+        <span>{KIND_ICONS[data.kind] ?? '•'}</span>
+        <span style={{ fontWeight: 700, flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+          {data.label || data.kind}
+        </span>
+        {diagnostics.length > 0 && (
+          <span title={diagnostics.map(d => d.message).join('\n')} style={badgeStyle(hasError ? '#e53e3e' : '#d69e2e')}>
+            {hasError ? '⛔' : '⚠'} {diagnostics.length}
+          </span>
+        )}
+      </div>
+      {summaryLines(data).map((line, i) => (
+        <div key={i} title={line} style={{ fontFamily: 'monospace', fontSize: '11px', opacity: .75, marginTop: 2 }}>
+          {truncate(line)}
+        </div>
+      ))}
+      {(data.condition || data.continueOnError || data.matrix || data.cache || data.produces?.length || data.consumes?.length || data.docker) && (
+        <div style={{ display: 'flex', gap: 4, marginTop: 4 }}>
+          {data.condition && <span title={data.condition} style={badgeStyle('#4a5568')}>if</span>}
+          {data.matrix && (
+            <span title={Object.entries(data.matrix.axes).map(([k, v]) => `${k}: ${v.join(', ')}`).join('\n')} style={badgeStyle('#4a5568')}>
+              matrix ×{matrixCombinations(data.matrix).length}
+            </span>
+          )}
+          {data.cache && (
+            <span title={[...(data.cache.keyFiles ?? []), ...(data.cache.restoreKeys ?? [])].join('\n') || '기본 캐시 키'} style={badgeStyle('#4a5568')}>
+              cache
+            </span>
+          )}
+          {data.docker?.push && <span title={data.docker.tagRules?.join(', ') || data.tag} style={badgeStyle('#4a5568')}>push</span>}
+          {!!data.docker?.platforms?.length && (
+            <span title={data.docker.platforms.join('\n')} style={badgeStyle('#4a5568')}>{data.docker.platforms.length} platforms</span>
+          )}
+          {data.consumes?.map(name => <span key={`in-${name}`} title="사용하는 아티팩트" style={badgeStyle('#4a5568')}>⬇ {name}</span>)}
+          {data.produces?.filter(a => a.name).map(a => (
+            <span key={`out-${a.name}`} title={a.paths.join('\n')} style={badgeStyle('#4a5568')}>⬆ {a.name}</span>
+          ))}
+          {data.continueOnError && <span title="실패해도 계속 진행" style={badgeStyle('#4a5568')}>continue on error</span>}
+        </div>
+      )}
+      <Handle type="source" id={SUCCESS_HANDLE} position={sourcePosition} title="성공 시" />
+      {/* 실패해도 계속 진행하는 노드는 실패 경로가 실행되지 않으므로 새 연결을 막음 (기존 엣지 표시용으로 핸들은 유지) */}
+      {!isStart && (
+        <Handle
+          type="source"
+          id={FAILURE_HANDLE}
+          position={failurePosition}
+          isConnectable={!data.continueOnError}
+          title={data.continueOnError ? '실패 시 (실패해도 계속 진행하는 노드에서는 사용할 수 없음)' : '실패 시'}
+          style={{ background: FAILURE_COLOR, opacity: data.continueOnError ? 0.3 : 1 }}
+        />
+      )}
+    </div>
+  )
+}
+
+export default memo(PipelineNodeCard)
@@ -0,0 +1,73 @@
+import { useRef, useState } from 'react'
+import type { PipelineSettings } from './codegen'
+import EnvironmentDialog from './EnvironmentDialog'
+
+/**
+ * 파이프라인 프로젝트 도구 모음
+ * - 파이프라인 이름 편집, 파이프라인 변수/시크릿 대화 상자
+ * - 새 파이프라인 / `.pipeline.json` 불러오기 / 내보내기
+ * - 마지막 자동 저장 시각 표시
+ */
+
+export interface PipelineToolbarProps {
+  settings: PipelineSettings
+  onSettingsChange: (settings: PipelineSettings) => void
+  onNew: () => void
+  onImport: (file: File) => void
+  onExport: () => void
+  lastSavedAt?: string
+}
+
+export default function PipelineToolbar({ settings, onSettingsChange, onNew, onImport, onExport, lastSavedAt }: PipelineToolbarProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [environmentOpen, setEnvironmentOpen] = useState(false)
+  const variableCount = Object.keys(settings.env).length + settings.secrets.length
+
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+      <input
+        value={settings.name}
+        onChange={(e) => onSettingsChange({ ...settings, name: e.target.value })}
+        placeholder="Pipeline name"
+        title="워크플로 이름"
+        style={{
+          flex: '0 1 280px',
+          fontSize: '13px',
+          fontWeight: 600,
+          backgroundColor: '#2d3748',
+          color: '#f7fafc',
+          border: '1px solid #4a5568',
+          borderRadius: '4px',
+          padding: '6px 8px',
+          outline: 'none'
+        }}
+      />
+      <button onClick={() => setEnvironmentOpen(true)} title="파이프라인 환경 변수와 시크릿">
+        Variables{variableCount > 0 ? ` (${variableCount})` : ''}
+      </button>
+      <button onClick={onNew} title="Start 노드만 있는 새 파이프라인">New</button>
+      <button onClick={() => fileInputRef.current?.click()} title=".pipeline.json 파일 불러오기">Import</button>
+      <button onClick={onExport} title=".pipeline.json 파일로 내보내기">Export</button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        style={{ display: 'none' }}
+        onChange={(e) => {
+          const file = e.target.files?.[0]
+          if (file) onImport(file)
+          // 같은 파일을 다시 선택해도 onChange가 호출되도록 초기화
+          e.target.value = ''
+        }}
+      />
+      {lastSavedAt && (
+        <span style={{ marginLeft: 'auto', fontSize: '12px', opacity: .6 }}>
+          자동 저장됨 {new Date(lastSavedAt).toLocaleTimeString()}
+        </span>
+      )}
+      {environmentOpen && (
+        <EnvironmentDialog settings={settings} onSettingsChange={onSettingsChange} onClose={() => setEnvironmentOpen(false)} />
+      )}
+    </div>
+  )
+}
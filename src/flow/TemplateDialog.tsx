@@ -0,0 +1,97 @@
+import { useState } from 'react'
+import { nodeCategory } from './codegen'
+import { TEMPLATES, type PipelineTemplate } from './templates'
+
+/**
+ * 템플릿 선택 대화 상자
+ * - 템플릿 목록과 단계 미리보기를 보여주고
+ * - 그래프 교체 또는 선택한 노드 뒤에 삽입 중 하나로 적용
+ */
+
+export type TemplateApplyMode = 'replace' | 'insert'
+
+export interface TemplateDialogProps {
+  /** 삽입 기준 노드 라벨. 없으면 삽입 불가 (노드를 하나만 선택해야 함) */
+  anchorLabel?: string
+  onApply: (template: PipelineTemplate, mode: TemplateApplyMode) => void
+  onClose: () => void
+}
+
+const buttonStyle = {
+  padding: '6px 12px',
+  color: 'white',
+  border: 'none',
+  borderRadius: '4px',
+  cursor: 'pointer'
+}
+
+export default function TemplateDialog({ anchorLabel, onApply, onClose }: TemplateDialogProps) {
+  const [selectedId, setSelectedId] = useState(TEMPLATES[0]?.id)
+  const selected = TEMPLATES.find(t => t.id === selectedId)
+
+  return (
+    <div
+      onClick={onClose}
+      style={{ position: 'fixed', inset: 0, backgroundColor: 'rgba(0,0,0,.55)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 1000 }}
+    >
+      <div
+        onClick={(e) => e.stopPropagation()}
+        style={{ width: 560, maxWidth: '90vw', backgroundColor: '#1a202c', color: '#f7fafc', border: '1px solid #4a5568', borderRadius: 8, padding: 16 }}
+      >
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 12 }}>
+          <div style={{ fontWeight: 700 }}>Templates</div>
+          <button onClick={onClose} title="닫기" style={{ padding: '2px 8px' }}>×</button>
+        </div>
+        <div style={{ display: 'grid', gridTemplateColumns: '200px 1fr', gap: 12, minHeight: 220 }}>
+          <div>
+            {TEMPLATES.map(t => (
+              <button
+                key={t.id}
+                onClick={() => setSelectedId(t.id)}
+                style={{
+                  width: '100%',
+                  textAlign: 'left',
+                  marginBottom: 6,
+                  backgroundColor: t.id === selectedId ? '#4a5568' : '#2d3748',
+                  color: '#f7fafc',
+                  border: '1px solid #4a5568'
+                }}
+              >
+                {t.name}
+              </button>
+            ))}
+          </div>
+          {selected && (
+            <div style={{ fontSize: '12px' }}>
+              <div style={{ marginBottom: 8, opacity: .8 }}>{selected.description}</div>
+              <ol style={{ margin: 0, paddingLeft: 18 }}>
+                {selected.document.nodes.filter(n => n.data.kind !== 'start').map(n => (
+                  <li key={n.id} style={{ marginBottom: 2 }}>
+                    {n.data.label} <span style={{ opacity: .5 }}>· {nodeCategory(n.data.kind)}</span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+        </div>
+        <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end', marginTop: 12 }}>
+          <button
+            disabled={!selected || !anchorLabel}
+            onClick={() => selected && onApply(selected, 'insert')}
+            title={anchorLabel ? undefined : '삽입하려면 캔버스에서 노드를 하나 선택하세요'}
+            style={{ ...buttonStyle, backgroundColor: '#3182ce', opacity: anchorLabel ? 1 : .5 }}
+          >
+            {anchorLabel ? `'${anchorLabel}' 뒤에 삽입` : '선택한 노드 뒤에 삽입'}
+          </button>
+          <button
+            disabled={!selected}
+            onClick={() => selected && onApply(selected, 'replace')}
+            style={{ ...buttonStyle, backgroundColor: '#4CAF50' }}
+          >
+            그래프 교체
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
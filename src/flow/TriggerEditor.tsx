@@ -0,0 +1,147 @@
+import type { ReactNode } from 'react'
+import ListInput from './ListInput'
+import {
+  DEFAULT_TRIGGERS,
+  DISPATCH_INPUT_TYPES,
+  cronError,
+  describeCron,
+  type DispatchInput,
+  type DispatchInputType,
+  type PipelineTriggers
+} from './triggers'
+
+/**
+ * Start 노드의 워크플로 트리거 편집기
+ * - push / pull_request: 사용 여부와 브랜치·태그·경로 필터 (쉼표로 구분)
+ * - schedule: cron 식 목록과 읽기 쉬운 미리보기
+ * - workflow_dispatch: 입력값 목록 (이름, 타입, 기본값, 필수 여부, choice 선택지)
+ */
+
+export interface TriggerEditorProps {
+  triggers?: PipelineTriggers
+  onChange: (triggers: PipelineTriggers) => void
+}
+
+const inputStyle = {
+  width: '100%',
+  minWidth: 0,
+  boxSizing: 'border-box' as const,
+  fontSize: '12px',
+  backgroundColor: '#2d3748',
+  color: '#f7fafc',
+  border: '1px solid #4a5568',
+  borderRadius: '4px',
+  padding: '4px 6px',
+  outline: 'none'
+}
+
+const sectionStyle = { marginBottom: 10, paddingBottom: 8, borderBottom: '1px dashed rgba(255,255,255,.1)' }
+
+const Toggle = ({ checked, label, onChange }: { checked: boolean, label: string, onChange: (checked: boolean) => void }) => (
+  <label style={{ display: 'flex', alignItems: 'center', gap: 6, marginBottom: 4, fontWeight: 600 }}>
+    <input type="checkbox" checked={checked} onChange={(e) => onChange(e.target.checked)} />
+    {label}
+  </label>
+)
+
+const Row = ({ label, children }: { label: string, children: ReactNode }) => (
+  <div style={{ display: 'grid', gridTemplateColumns: '64px 1fr', alignItems: 'center', gap: 4, marginBottom: 4, paddingLeft: 20 }}>
+    <span style={{ opacity: .7 }}>{label}</span>
+    {children}
+  </div>
+)
+
+export default function TriggerEditor({ triggers = DEFAULT_TRIGGERS, onChange }: TriggerEditorProps) {
+  const { push, pullRequest, schedule = [], dispatch } = triggers
+  const update = (patch: Partial<PipelineTriggers>) => onChange({ ...triggers, ...patch })
+  const inputs = dispatch?.inputs ?? []
+  const updateInput = (index: number, patch: Partial<DispatchInput>) =>
+    update({ dispatch: { inputs: inputs.map((input, i) => (i === index ? { ...input, ...patch } : input)) } })
+
+  return (
+    <div style={{ fontSize: '12px' }}>
+      <div style={sectionStyle}>
+        <Toggle checked={!!push} label="push" onChange={(on) => update({ push: on ? {} : undefined })} />
+        {push && (
+          <>
+            <Row label="branches"><ListInput value={push.branches} placeholder="main, release/**" onChange={(branches) => update({ push: { ...push, branches } })} /></Row>
+            <Row label="tags"><ListInput value={push.tags} placeholder="v*" onChange={(tags) => update({ push: { ...push, tags } })} /></Row>
+            <Row label="paths"><ListInput value={push.paths} placeholder="src/**" onChange={(paths) => update({ push: { ...push, paths } })} /></Row>
+          </>
+        )}
+      </div>
+
+      <div style={sectionStyle}>
+        <Toggle checked={!!pullRequest} label="pull_request" onChange={(on) => update({ pullRequest: on ? {} : undefined })} />
+        {pullRequest && (
+          <>
+            <Row label="branches"><ListInput value={pullRequest.branches} placeholder="main" onChange={(branches) => update({ pullRequest: { ...pullRequest, branches } })} /></Row>
+            <Row label="paths"><ListInput value={pullRequest.paths} placeholder="src/**" onChange={(paths) => update({ pullRequest: { ...pullRequest, paths } })} /></Row>
+          </>
+        )}
+      </div>
+
+      <div style={sectionStyle}>
+        <div style={{ fontWeight: 600, marginBottom: 4 }}>schedule</div>
+        {schedule.map((cron, i) => {
+          const error = cronError(cron)
+          return (
+            <div key={i} style={{ marginBottom: 6 }}>
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr auto', gap: 4 }}>
+                <input
+                  value={cron}
+                  onChange={(e) => update({ schedule: schedule.map((c, j) => (j === i ? e.target.value : c)) })}
+                  style={{ ...inputStyle, fontFamily: 'monospace', borderColor: error ? '#f56565' : '#4a5568' }}
+                />
+                <button onClick={() => update({ schedule: schedule.filter((_, j) => j !== i) })} title="일정 삭제" style={{ padding: '0 6px' }}>×</button>
+              </div>
+              <div style={{ marginTop: 2, color: error ? '#f56565' : '#a0aec0' }}>{error ?? describeCron(cron)}</div>
+            </div>
+          )
+        })}
+        <button onClick={() => update({ schedule: [...schedule, '0 0 * * *'] })} style={{ fontSize: '12px' }}>+ cron</button>
+      </div>
+
+      <div>
+        <Toggle checked={!!dispatch} label="workflow_dispatch (수동 실행)" onChange={(on) => update({ dispatch: on ? { inputs: [] } : undefined })} />
+        {dispatch && (
+          <>
+            {inputs.map((input, i) => (
+              <div key={i} style={{ marginBottom: 8, paddingLeft: 20 }}>
+                <div style={{ display: 'grid', gridTemplateColumns: '1fr 90px auto', gap: 4, marginBottom: 4 }}>
+                  <input value={input.name} placeholder="name" onChange={(e) => updateInput(i, { name: e.target.value })} style={{ ...inputStyle, fontFamily: 'monospace' }} />
+                  <select value={input.type} onChange={(e) => updateInput(i, { type: e.target.value as DispatchInputType })} style={inputStyle}>
+                    {DISPATCH_INPUT_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+                  </select>
+                  <button onClick={() => update({ dispatch: { inputs: inputs.filter((_, j) => j !== i) } })} title="입력값 삭제" style={{ padding: '0 6px' }}>×</button>
+                </div>
+                <div style={{ display: 'grid', gridTemplateColumns: '1fr auto', gap: 4, marginBottom: 4 }}>
+                  <input value={input.default ?? ''} placeholder="default" onChange={(e) => updateInput(i, { default: e.target.value || undefined })} style={inputStyle} />
+                  <label style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+                    <input type="checkbox" checked={!!input.required} onChange={(e) => updateInput(i, { required: e.target.checked || undefined })} />
+                    required
+                  </label>
+                </div>
+                {input.type === 'choice' && (
+                  <div style={{ marginBottom: 4 }}>
+                    <ListInput value={input.options} placeholder="options: staging, production" onChange={(options) => updateInput(i, { options })} />
+                  </div>
+                )}
+                <input value={input.description ?? ''} placeholder="description" onChange={(e) => updateInput(i, { description: e.target.value || undefined })} style={inputStyle} />
+                {input.name && (
+                  <div style={{ marginTop: 2, color: '#a0aec0', fontFamily: 'monospace' }}>{`\${{ inputs.${input.name} }}`}</div>
+                )}
+              </div>
+            ))}
+            <button
+              onClick={() => update({ dispatch: { inputs: [...inputs, { name: `input${inputs.length + 1}`, type: 'string' }] } })}
+              style={{ fontSize: '12px', marginLeft: 20 }}
+            >
+              + input
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,137 @@
+import type { PipelineJob, PipelineNodeData } from './codegen'
+import { shellQuote } from './quoting'
+import type { YAMLValue } from './yamlEmitter'
+
+/**
+ * 아티팩트 (단계 사이에 전달하는 빌드 결과물)
+ * - 노드는 만드는 아티팩트(이름 + 경로 목록)와 사용하는 아티팩트 이름을 선언
+ * - GitHub Actions: job 경계에서 upload-artifact / download-artifact step
+ * - 셸: `$ARTIFACTS_DIR/<이름>.tar`로 묶어 두었다가 사용하는 단계 앞에서 풀기
+ */
+
+export interface PipelineArtifact {
+  name: string
+  /** 작업 디렉터리 기준 파일/디렉터리 경로 또는 glob */
+  paths: string[]
+}
+
+/** 아티팩트 이름으로 쓸 수 있는 형식 */
+export const isArtifactName = (name: string): boolean => /^[A-Za-z0-9][A-Za-z0-9._-]*$/.test(name)
+
+/** 노드가 만드는 아티팩트 중 이름이 있는 것 */
+export const producedArtifacts = (n: PipelineNodeData): PipelineArtifact[] => (n.produces ?? []).filter(a => a.name)
+
+/**
+ * 아티팩트를 내려받을 디렉터리 (업로드 시 잘리는 공통 상위 경로)
+ * - upload-artifact는 경로들의 공통 상위 디렉터리를 루트로 저장하므로, 같은 위치에 받아야 원래 구조가 복원됨
+ * - glob이 없는 경로 하나: 확장자가 있으면 파일로 보고 상위 디렉터리, 없으면 디렉터리 자체
+ */
+export function artifactRoot(paths: string[]): string {
+  const dirs = paths.map(p => {
+    const clean = p.trim().replace(/^\.\//, '').replace(/\/+$/, '')
+    const parts = clean.split('/')
+    const glob = parts.findIndex(part => /[*?[]/.test(part))
+    if (glob >= 0) return parts.slice(0, glob)
+    return paths.length === 1 && !/\.[^/]+$/.test(parts[parts.length - 1]) ? parts : parts.slice(0, -1)
+  })
+  if (dirs.length === 0) return '.'
+  const common: string[] = []
+  for (let i = 0; dirs.every(d => i < d.length && d[i] === dirs[0][i]); i++) common.push(dirs[0][i])
+  return common.length > 0 ? common.join('/') : '.'
+}
+
+/** 다른 job이 만든 아티팩트 내려받기 */
+export interface ArtifactDownload {
+  /** 만드는 job id */
+  from: string
+  artifact: PipelineArtifact
+}
+
+/**
+ * job 경계에서 주고받을 아티팩트
+ * - 사용하는 노드의 job이 만드는 job과 다르면: 만드는 job 끝에서 업로드, 사용하는 job 시작에서 다운로드
+ * - 만드는 노드는 선행 job 중 가장 가까운 것 (같은 job 안에서 앞선 노드가 만들면 전달 불필요)
+ */
+export function artifactTransfers(jobs: PipelineJob[]): Map<string, { uploads: PipelineArtifact[], downloads: ArtifactDownload[] }> {
+  const transfers = new Map(jobs.map(job => [job.id, { uploads: [] as PipelineArtifact[], downloads: [] as ArtifactDownload[] }]))
+  const byId = new Map(jobs.map(job => [job.id, job]))
+
+  // job id → (아티팩트 이름 → 만드는 job) : 자신과 선행 job에서 만든 아티팩트, 가까운 쪽 우선
+  const available = new Map<string, Map<string, { job: string, artifact: PipelineArtifact }>>()
+  jobs.forEach(job => {
+    const inherited = new Map<string, { job: string, artifact: PipelineArtifact }>()
+    job.needs.forEach(need => available.get(need)?.forEach((source, name) => inherited.set(name, source)))
+    const own = new Map(inherited)
+    job.nodes.forEach(n => {
+      ;(n.data.consumes ?? []).forEach(name => {
+        const source = own.get(name)
+        if (!source || source.job === job.id) return
+        const entry = transfers.get(job.id)!
+        if (!entry.downloads.some(d => d.artifact.name === name)) entry.downloads.push({ from: source.job, artifact: source.artifact })
+        const producer = transfers.get(source.job)!
+        if (!producer.uploads.some(a => a.name === name)) producer.uploads.push(source.artifact)
+      })
+      producedArtifacts(n.data).forEach(artifact => own.set(artifact.name, { job: job.id, artifact }))
+    })
+    available.set(job.id, own)
+  })
+  // 업로드 순서를 job 노드 순서(선언 순서)에 맞춤
+  transfers.forEach((entry, id) => {
+    const order = byId.get(id)!.nodes.flatMap(n => producedArtifacts(n.data).map(a => a.name))
+    entry.uploads.sort((a, b) => order.indexOf(a.name) - order.indexOf(b.name))
+  })
+  return transfers
+}
+
+/**
+ * upload-artifact step
+ * - v4는 한 실행 안에서 같은 이름의 업로드를 거부하므로 매트릭스 job은 조합 값(matrixKeys)을 이름 뒤에 붙임
+ */
+export const uploadStep = (artifact: PipelineArtifact, matrixKeys: string[] = []): YAMLValue => ({
+  name: `Upload ${artifact.name}`,
+  uses: 'actions/upload-artifact@v4',
+  with: {
+    name: [artifact.name, ...matrixKeys.map(key => `\${{ matrix.${key} }}`)].join('-'),
+    path: artifact.paths.join('\n'),
+    'if-no-files-found': 'error'
+  }
+})
+
+/**
+ * download-artifact step (업로드 때와 같은 디렉터리 구조로 복원)
+ * - 매트릭스 job이 만든 아티팩트(fromMatrix)는 모든 조합을 패턴으로 받아 같은 디렉터리에 합침
+ */
+export const downloadStep = (artifact: PipelineArtifact, fromMatrix = false): YAMLValue => ({
+  name: `Download ${artifact.name}`,
+  uses: 'actions/download-artifact@v4',
+  with: fromMatrix
+    ? { pattern: `${artifact.name}-*`, path: artifactRoot(artifact.paths), 'merge-multiple': true }
+    : { name: artifact.name, path: artifactRoot(artifact.paths) }
+})
+
+/* ───────────── 셸 ───────────── */
+
+/** 로컬 아티팩트 디렉터리 (실행마다 작업 디렉터리 아래 `.artifacts`) */
+export const ARTIFACTS_PRELUDE = '# Artifacts\nexport ARTIFACTS_DIR="${ARTIFACTS_DIR:-$PWD/.artifacts}"\nmkdir -p "$ARTIFACTS_DIR"\n'
+
+/** 경로 하나를 셸 단어로. glob 문자만 있는 안전한 경로는 확장되도록 인용하지 않음 */
+const shellPath = (path: string): string => (/^[A-Za-z0-9_@%+=:,./*?-]+$/.test(path) ? path : shellQuote(path))
+
+/** 만든 아티팩트를 `$ARTIFACTS_DIR/<이름>.tar`로 보관 */
+export function stashArtifacts(artifacts: PipelineArtifact[]): string {
+  return artifacts.map(({ name, paths }) => {
+    const globstar = paths.some(p => p.includes('**')) ? 'shopt -s globstar; ' : ''
+    return `# Artifact: ${name}\n(${globstar}tar -cf "$ARTIFACTS_DIR/"${shellQuote(`${name}.tar`)} -- ${paths.map(shellPath).join(' ')})\n`
+  }).join('')
+}
+
+/**
+ * Jenkins `stash` includes 패턴 (Ant glob, 쉼표 구분). 디렉터리는 하위 전체
+ */
+export const antIncludes = (paths: string[]): string =>
+  paths.map(p => p.trim().replace(/^\.\//, '').replace(/\/+$/, '')).map(p => (/[*?]/.test(p) || /\.[^/]+$/.test(p) ? p : `${p}/**`)).join(',')
+
+/** 사용하는 아티팩트를 작업 디렉터리에 풀기 */
+export function unstashArtifacts(names: string[]): string {
+  return names.map(name => `tar -xf "$ARTIFACTS_DIR/"${shellQuote(`${name}.tar`)}\n`).join('')
+}
@@ -0,0 +1,107 @@
+import type { PipelineNodeData, PipelineNodeKind } from './codegen'
+import type { YAMLValue } from './yamlEmitter'
+
+/**
+ * 의존성 캐시 (prebuild_node / prebuild_python / prebuild_java 노드)
+ * - 패키지 관리자(npm/yarn/pnpm, pip, Gradle/Maven)마다 캐시 경로와 기본 키 파일이 정해져 있음
+ * - GitHub Actions: restore key가 없으면 setup 액션의 `cache:` 입력, 있으면 `actions/cache` step
+ * - 셸: `PIPELINE_CACHE_DIR`(기본 `~/.cache/pipeline`) 아래 도구별 디렉터리를 캐시 위치로 지정
+ */
+
+export type CacheTool = 'npm' | 'yarn' | 'pnpm' | 'pip' | 'gradle' | 'maven'
+
+export interface DependencyCache {
+  /** 캐시 키를 계산할 파일 glob (lockfile 등). 비우면 도구별 기본값 */
+  keyFiles?: string[]
+  /** 키가 정확히 일치하는 캐시가 없을 때 순서대로 시도할 키 접두사 */
+  restoreKeys?: string[]
+}
+
+interface CacheToolSpec {
+  /** 러너에서 캐시할 경로 (actions/cache) */
+  paths: string[]
+  /** 기본 키 파일 */
+  keyFiles: string[]
+  /** 셸에서 캐시 위치를 지정하는 export 문 (`$DIR`이 도구별 디렉터리로 치환됨) */
+  shell: string
+}
+
+const CACHE_TOOLS: Record<CacheTool, CacheToolSpec> = {
+  npm: { paths: ['~/.npm'], keyFiles: ['**/package-lock.json'], shell: 'export npm_config_cache="$DIR"' },
+  yarn: { paths: ['~/.cache/yarn'], keyFiles: ['**/yarn.lock'], shell: 'export YARN_CACHE_FOLDER="$DIR"' },
+  pnpm: { paths: ['~/.local/share/pnpm/store'], keyFiles: ['**/pnpm-lock.yaml'], shell: 'export npm_config_store_dir="$DIR"' },
+  pip: { paths: ['~/.cache/pip'], keyFiles: ['**/requirements*.txt'], shell: 'export PIP_CACHE_DIR="$DIR"' },
+  gradle: { paths: ['~/.gradle/caches', '~/.gradle/wrapper'], keyFiles: ['**/*.gradle*', '**/gradle-wrapper.properties'], shell: 'export GRADLE_USER_HOME="$DIR"' },
+  maven: { paths: ['~/.m2/repository'], keyFiles: ['**/pom.xml'], shell: 'export MAVEN_OPTS="${MAVEN_OPTS:-} -Dmaven.repo.local=$DIR"' }
+}
+
+const CACHE_KINDS: PipelineNodeKind[] = ['prebuild_node', 'prebuild_python', 'prebuild_java']
+
+/** 캐시를 설정할 수 있는 노드 종류 */
+export const supportsCache = (kind: PipelineNodeKind): boolean => CACHE_KINDS.includes(kind)
+
+/**
+ * 노드가 사용하는 캐시 도구 (캐시를 켜지 않았거나 지원하지 않는 노드면 undefined)
+ */
+export function cacheTool(n: PipelineNodeData): CacheTool | undefined {
+  if (!n.cache) return undefined
+  if (n.kind === 'prebuild_node') return n.manager || 'npm'
+  if (n.kind === 'prebuild_python') return 'pip'
+  if (n.kind === 'prebuild_java') return n.buildTool || 'gradle'
+  return undefined
+}
+
+/** 도구를 설치하는 setup 액션의 언어 */
+export const cacheLanguage = (tool: CacheTool): 'javascript' | 'python' | 'java' => {
+  if (tool === 'pip') return 'python'
+  return tool === 'gradle' || tool === 'maven' ? 'java' : 'javascript'
+}
+
+/** 실제 사용할 키 파일 (지정하지 않으면 도구별 기본값) */
+export const cacheKeyFiles = (tool: CacheTool, cache: DependencyCache): string[] =>
+  cache.keyFiles?.length ? cache.keyFiles : CACHE_TOOLS[tool].keyFiles
+
+/**
+ * setup 액션 캐시 입력으로 처리할 수 있는지
+ * - restore key는 setup 액션이 지원하지 않음
+ * - setup-node의 pnpm 캐시는 pnpm이 먼저 설치되어 있어야 하므로 actions/cache 사용
+ */
+export const usesSetupCache = (tool: CacheTool, cache: DependencyCache): boolean =>
+  !cache.restoreKeys?.length && tool !== 'pnpm'
+
+/**
+ * setup-node / setup-python / setup-java의 `cache` 관련 입력
+ */
+export function setupCacheInputs(tool: CacheTool, cache: DependencyCache): Record<string, string> {
+  return {
+    cache: tool,
+    ...(cache.keyFiles?.length ? { 'cache-dependency-path': cache.keyFiles.join('\n') } : {})
+  }
+}
+
+/**
+ * `actions/cache` step (restore key를 지정했거나 setup 액션 캐시를 쓸 수 없을 때)
+ * - 키: `<OS>-<도구>-<키 파일 해시>`, restore key 기본값은 `<OS>-<도구>-`
+ */
+export function cacheStep(tool: CacheTool, cache: DependencyCache): YAMLValue {
+  const prefix = `\${{ runner.os }}-${tool}-`
+  const hash = cacheKeyFiles(tool, cache).map(f => `'${f.replace(/'/g, "''")}'`).join(', ')
+  const restoreKeys = cache.restoreKeys?.length ? cache.restoreKeys : [prefix]
+  return {
+    name: `Cache ${tool} dependencies`,
+    uses: 'actions/cache@v3',
+    with: {
+      path: CACHE_TOOLS[tool].paths.join('\n'),
+      key: `${prefix}\${{ hashFiles(${hash}) }}`,
+      'restore-keys': restoreKeys.join('\n')
+    }
+  }
+}
+
+/**
+ * 셸 실행 시 캐시 위치 설정. 실행할 때마다 같은 디렉터리를 재사용 (키는 CI에서만 사용)
+ */
+export function cacheShell(tool: CacheTool): string {
+  const dir = `\${PIPELINE_CACHE_DIR:-$HOME/.cache/pipeline}/${tool}`
+  return `# Dependency cache: ${tool}\n${CACHE_TOOLS[tool].shell.replace('$DIR', () => dir)}\nmkdir -p "${dir}"\n`
+}
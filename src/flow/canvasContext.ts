@@ -0,0 +1,15 @@
+import { createContext } from 'react'
+import type { Diagnostic } from './validation'
+
+/**
+ * 캔버스 노드 카드에 표시할 부가 정보
+ * - 노드 데이터에 넣지 않고 그래프에서 계산되는 값 (검증 결과, 단계 번호)
+ * - EditorCanvas가 제공하고 PipelineNodeCard가 읽음
+ */
+export interface CanvasDecorations {
+  diagnosticsByNode: Map<string, Diagnostic[]>
+  /** 실행 순서 기준 단계 번호 (codegen의 stepNumbers) */
+  stepNumbers: Map<string, string>
+}
+
+export const CanvasDecorationsContext = createContext<CanvasDecorations>({ diagnosticsByNode: new Map(), stepNumbers: new Map() })
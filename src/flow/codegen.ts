@@ -2,11 +2,19 @@ import type { Edge, Node } from 'reactflow'
 import { MarkerType } from 'reactflow'
 import { load, Kind } from 'yaml-ast-parser'
 import type { YAMLNode, YAMLScalar, YamlMap, YAMLSequence } from 'yaml-ast-parser'
+import { toYAML, type YAMLValue } from './yamlEmitter'
+import { heredoc, isEnvName, shellComment, shellQuote, shellQuoteWords } from './quoting'
+import { OS_AXIS, VERSION_AXES, findAxis, localCombinations, matrixKeys, matrixShell, matrixToYAML, mergeMatrices, substituteMatrix, matrixVariable, type PipelineMatrix } from './matrix'
+import { ARTIFACTS_PRELUDE, antIncludes, artifactTransfers, downloadStep, producedArtifacts, stashArtifacts, unstashArtifacts, uploadStep, type ArtifactDownload, type PipelineArtifact } from './artifacts'
+import { dockerShell, dockerSteps, type DockerOptions } from './docker'
+import { k8sDeployScript, k8sSteps, kubeconfigSecret, kubeconfigShell, resolveImageSources } from './k8s'
+import { cacheLanguage, cacheShell, cacheStep, cacheTool, setupCacheInputs, usesSetupCache, type DependencyCache } from './cache'
+import { DISPATCH_INPUT_TYPES, inputsPrelude, substituteInputs, triggersToYAML, type DispatchInput, type PipelineTriggers } from './triggers'
 
 /**
  * CI/CD 그래프 → 코드 생성 모듈
  * - 그래프는 React Flow의 `Node`, `Edge`로 표현
- * - 현재는 직렬(선형) 파이프라인만 지원. 병렬/분기는 추후 DAG 정렬로 확장 가능
+ * - `start`에서 도달 가능한 DAG를 위상 정렬하여 job 단위로 스케줄링 (병렬 분기 지원)
  * - 출력: bash 스크립트와 GitHub Actions YAML
  */
 
@@ -27,6 +35,7 @@ export type PipelineNodeKind =
   | 'docker_build'
   | 'run_tests'
   | 'deploy'
+  | 'deploy_k8s'
   | 'notify_slack'
 
 /**
@@ -35,6 +44,12 @@ export type PipelineNodeKind =
 export interface PipelineNodeData {
   kind: PipelineNodeKind
   label?: string
+  // start: 워크플로 트리거 (없으면 push, pull_request)
+  triggers?: PipelineTriggers
+
+  // build_*, run_tests: 매트릭스 빌드 (job 단위로 합쳐서 적용)
+  matrix?: PipelineMatrix
+
   // common optional fields
   lang?: 'javascript' | 'python' | 'java'
   command?: string
@@ -50,12 +65,24 @@ export interface PipelineNodeData {
   // node prebuild
   manager?: 'npm' | 'yarn' | 'pnpm'
 
+  // java prebuild (기본 gradle)
+  buildTool?: 'gradle' | 'maven'
+
+  // prebuild_*: 의존성 캐시 (있으면 사용)
+  cache?: DependencyCache
+
+  // 이 노드가 만드는 아티팩트와 사용하는 아티팩트 이름
+  produces?: PipelineArtifact[]
+  consumes?: string[]
+
   // prebuild custom
   script?: string
 
   // docker
   dockerfile?: string
   tag?: string
+  // docker_build: 레지스트리 push, 자동 태그, 멀티 플랫폼 등 (없으면 단순 `docker build`)
+  docker?: DockerOptions
 
   // tests
   testType?: 'unit' | 'integration' | 'e2e'
@@ -64,14 +91,131 @@ export interface PipelineNodeData {
   environment?: 'staging' | 'production' | 'development'
   deployScript?: string
 
+  // deploy_k8s: kubectl 매니페스트 또는 Helm 차트 배포
+  deployTool?: 'kubectl' | 'helm'
+  kubeconfigSecret?: string
+  namespace?: string
+  /** kubectl: 적용할 매니페스트 파일/디렉터리 (쉼표/공백 구분) */
+  manifests?: string
+  /** kubectl: 이미지 교체와 rollout 대기 대상 (예: deployment/myapp) */
+  rolloutTarget?: string
+  chart?: string
+  release?: string
+  /** helm: values 파일 (쉼표/공백 구분) */
+  valuesFiles?: string
+  /** 배포할 이미지 참조. `imageFrom`이 있으면 코드 생성 시 그 노드의 이미지로 채워짐 */
+  image?: string
+  /** 이미지를 가져올 docker_build 노드 id */
+  imageFrom?: string
+  waitRollout?: boolean
+  rolloutTimeout?: string
+
   // notify
   channel?: string
   message?: string
+
+  // 가져온 GitHub Actions step 속성 (uses/with/if/env)
+  uses?: string
+  // 가져온 워크플로의 job id. 이 노드로 시작하는 job의 id로 다시 사용
+  job?: string
+  with?: Record<string, string>
+  condition?: string
+  env?: Record<string, string>
+
+  // 이 노드에서만 쓰는 시크릿 이름 (값은 CI 시크릿 저장소에서 주입)
+  secrets?: string[]
+
+  // 실패해도 파이프라인을 계속 진행 (GitHub Actions `continue-on-error`)
+  continueOnError?: boolean
+
+  // 노드 명령을 실행할 디렉터리 (저장소 루트 기준, GitHub Actions `working-directory`)
+  workingDirectory?: string
 }
 
 /** React Flow Node with our domain data */
 export type PipelineNode = Node<PipelineNodeData>
 
+/** 파이프라인 노드 카드의 React Flow 노드 타입 (`nodeTypes` 키) */
+export const PIPELINE_NODE_TYPE = 'pipeline'
+
+/** 노드 카드의 출력 핸들 id: 성공 시 경로 / 실패 시 경로 */
+export const SUCCESS_HANDLE = 'success'
+export const FAILURE_HANDLE = 'failure'
+
+/**
+ * 엣지 실행 조건
+ * - success: 앞 단계가 성공했을 때 (기본)
+ * - failure: 앞 단계(또는 그 이전 단계)가 실패했을 때
+ * - always: 성공/실패와 관계없이 앞 단계가 끝나면
+ * - custom: GitHub Actions 조건식 (`expression`)
+ */
+export type EdgeCondition = 'success' | 'failure' | 'always' | 'custom'
+
+export const EDGE_CONDITIONS: EdgeCondition[] = ['success', 'failure', 'always', 'custom']
+
+/** 엣지 `data`에 저장하는 속성 */
+export interface PipelineEdgeData {
+  condition?: EdgeCondition
+  /** custom 조건식 (`${{ }}` 감싸기는 선택) */
+  expression?: string
+}
+
+/**
+ * 엣지의 실행 조건. 조건을 지정하지 않은 엣지는 출발 핸들로 결정 (실패 핸들이면 failure)
+ */
+export const edgeCondition = (edge: Edge): EdgeCondition =>
+  (edge.data as PipelineEdgeData | undefined)?.condition ?? (edge.sourceHandle === FAILURE_HANDLE ? 'failure' : 'success')
+
+/**
+ * 파이프라인 전체에 적용되는 설정. 프로젝트 파일에 노드/엣지와 함께 저장됨
+ */
+export interface PipelineSettings {
+  /** 워크플로 이름 (YAML `name:`) */
+  name: string
+  /** Shell 출력을 robust 모드로 생성 */
+  robustShell: boolean
+  /** GitHub Actions YAML에서 노드마다 step을 하나씩 생성 (끄면 job 스크립트를 run step 하나로 묶음) */
+  stepPerNode: boolean
+  /** 모든 단계에 적용되는 환경 변수 (이름 → 값) */
+  env: Record<string, string>
+  /** 모든 단계에 주입되는 시크릿 이름. 값은 저장하지 않음 */
+  secrets: string[]
+}
+
+export const DEFAULT_PIPELINE_SETTINGS: PipelineSettings = {
+  name: 'ReactFlow CI/CD Pipeline',
+  robustShell: false,
+  stepPerNode: true,
+  env: {},
+  secrets: []
+}
+
+/**
+ * 노드 분류. 실행 순서대로 나열되며 GitLab `stages` 등의 기준이 됨
+ */
+export type NodeCategory = 'prebuild' | 'build' | 'test' | 'deploy' | 'notify'
+
+export const NODE_CATEGORIES: NodeCategory[] = ['prebuild', 'build', 'test', 'deploy', 'notify']
+
+export const nodeCategory = (kind: PipelineNodeKind): NodeCategory => {
+  switch (kind) {
+    case 'build_npm':
+    case 'build_python':
+    case 'build_java':
+    case 'docker_build':
+      return 'build'
+    case 'run_tests':
+      return 'test'
+    case 'deploy':
+    case 'deploy_k8s':
+      return 'deploy'
+    case 'notify_slack':
+      return 'notify'
+    default:
+      return 'prebuild'
+  }
+}
+
 /**
  * 사용자가 입력한 문자열에서 양끝 따옴표를 제거
  * - YAML/쉘 라인에 그대로 삽입되므로, 중복 인용을 방지
@@ -85,18 +229,25 @@ const dequote = (t: string | undefined): string => {
   return s
 }
 
+/**
+ * 실패를 무시할 명령에 `|| true`를 붙이는 함수 생성
+ * - strict 모드에서는 continueOnError 노드에서만 실패를 무시
+ */
+const softener = (n: PipelineNodeData, strict: boolean) => (cmd: string): string =>
+  !strict || n.continueOnError ? `${cmd} || true` : cmd
+
 /**
  * 언어별 기본 준비 스크립트 (선택)
  */
-const languageSetup = (lang: string | undefined): string => {
+const languageSetup = (lang: string | undefined, soft: (cmd: string) => string): string => {
   switch (lang) {
     case 'python':
-      return '# Setup Python\npython3 --version || true\npip3 install -r requirements.txt || true\n'
+      return `# Setup Python\n${soft('python3 --version')}\n${soft('pip3 install -r requirements.txt')}\n`
     case 'java':
-      return "# Setup Java\njava -version || true\nmvn -v || true\n"
+      return `# Setup Java\n${soft('java -version')}\n${soft('mvn -v')}\n`
     case 'javascript':
     default:
-      return '# Setup Node.js\nnode -v || true\nnpm ci || npm install\n'
+      return `# Setup Node.js\n${soft('node -v')}\nnpm ci || npm install\n`
   }
 }
 
@@ -104,21 +255,24 @@ const languageSetup = (lang: string | undefined): string => {
  * 임의 커맨드를 언어 주석과 함께 감싸는 유틸리티
  */
 const commandPrefix = (lang: string | undefined, cmd: string): string => {
-  return `# ${lang || 'generic'} command\n${cmd}\n`
+  return `# ${shellComment(lang || 'generic')} command\n${cmd}\n`
 }
 
 /**
  * 노드 → bash 스니펫 변환기
  * - 각 kind에 대응하는 스크립트를 반환
+ * - strict: `set -e` 환경용. 실패 무시(`|| true`)는 continueOnError 노드에만 적용
  */
-function nodeToScript(n: PipelineNodeData): string {
+function nodeToScript(n: PipelineNodeData, strict = false): string {
+  const soft = softener(n, strict)
   switch (n.kind) {
     case 'start':
       return '#!/bin/bash\n# CI/CD Pipeline\necho "🚀 Starting pipeline..."\n'
     case 'git_clone':
-      return `git clone -b ${dequote(n.branch)} ${dequote(n.repoUrl)}\n`
+      // `--` 뒤에 저장소를 두어 `-`로 시작하는 값이 옵션으로 해석되지 않도록 함
+      return `git clone -b ${shellQuote(dequote(n.branch))} -- ${shellQuote(dequote(n.repoUrl))}\n`
     case 'linux_install': {
-      const pkgs = dequote(n.packages)
+      const pkgs = shellQuoteWords(dequote(n.packages))
       if (n.osPkg === 'yum') return `sudo yum install -y ${pkgs}\n`
       if (n.osPkg === 'apk') return `sudo apk add --no-cache ${pkgs}\n`
       return `sudo apt-get update && sudo apt-get install -y ${pkgs}\n`
@@ -129,29 +283,38 @@ function nodeToScript(n: PipelineNodeData): string {
       return '# Prebuild Node (npm)\nnpm ci || npm install\n'
     }
     case 'prebuild_python':
-      return '# Prebuild Python\npython3 -m venv .venv || true\n. .venv/bin/activate || true\npip install -r requirements.txt || true\n'
+      return `# Prebuild Python\n${soft('python3 -m venv .venv')}\n${soft('. .venv/bin/activate')}\n${soft('pip install -r requirements.txt')}\n`
     case 'prebuild_java':
+      if (n.buildTool === 'maven') return `# Prebuild Java (Maven)\n${soft('mvn -B dependency:go-offline')}\n`
+      // strict 모드에서는 Maven 프로젝트(gradlew 없음)가 실패하지 않도록 존재 여부를 먼저 확인
+      if (strict && !n.continueOnError) return '# Prebuild Java\n# Assuming Gradle Wrapper or Maven present\nif [ -f gradlew ]; then chmod +x gradlew; fi\n'
       return '# Prebuild Java\n# Assuming Gradle Wrapper or Maven present\nchmod +x gradlew || true\n'
     case 'prebuild_custom':
+      // 스크립트 없이 가져온 액션 step은 로컬에서 실행할 수 없으므로 주석으로 남김
+      if (n.uses && !n.script) return `# uses: ${shellComment(n.uses)} (GitHub Actions only)\n`
       return `# Prebuild custom\n${dequote(n.script)}\n`
     case 'build_npm':
       return '# Build NPM\nnpm run build\n'
     case 'build_python':
-      return '# Build Python\npython setup.py build || true\n'
+      return `# Build Python\n${soft('python setup.py build')}\n`
     case 'build_java':
       return '# Build Java\nif [ -f gradlew ]; then\n  ./gradlew build\nelse\n  mvn -B package --file pom.xml\nfi\n'
     case 'docker_build':
-      return `docker build -f ${dequote(n.dockerfile)} -t ${dequote(n.tag)} .\n`
+      if (n.docker) return dockerShell({ dockerfile: dequote(n.dockerfile), image: dequote(n.tag) }, n.docker)
+      return `docker build -f ${shellQuote(dequote(n.dockerfile))} -t ${shellQuote(dequote(n.tag))} .\n`
     case 'run_tests':
-      return `# Run ${n.testType || ''} tests\n${dequote(n.command)}\n`
+      return `# Run ${shellComment(n.testType || '')} tests\n${dequote(n.command)}\n`
     case 'deploy':
-      return `# Deploy to ${n.environment || ''}\n${dequote(n.deployScript)}\n`
+      return `# Deploy to ${shellComment(n.environment || '')}\n${dequote(n.deployScript)}\n`
+    case 'deploy_k8s':
+      return k8sDeployScript(n)
     case 'notify_slack': {
+      // JSON은 인용된 heredoc으로 stdin에 전달하여 메시지 내용이 셸에서 해석되지 않도록 함
       const payload = JSON.stringify({ channel: n.channel || '', text: n.message || '' })
-      return `# Send Slack notification\ncurl -X POST -H 'Content-type: application/json' --data '${payload}' $SLACK_WEBHOOK\n`
+      return `# Send Slack notification\ncurl -X POST -H 'Content-type: application/json' --data @- "$SLACK_WEBHOOK" ${heredoc(payload, 'JSON')}\n`
     }
     default: {
-      const setup = languageSetup(n.lang)
+      const setup = languageSetup(n.lang, soft)
       const cmd = commandPrefix(n.lang, dequote(n.command || ''))
       return `${setup}${cmd}`
     }
@@ -159,166 +322,1185 @@ function nodeToScript(n: PipelineNodeData): string {
 }
 
 /**
- * 간단한 선형 정렬
- * - 규칙: `start`에서 시작하여 아웃고잉이 정확히 1개인 간선을 따라가며 정렬
- * - 분기/병렬 발생 시 탐색 중단 (현 버전 제한)
+ * 분기 없이 이어지는 노드 체인. GitHub Actions의 job 하나에 대응
  */
-export function linearize(nodes: PipelineNode[], edges: Edge[]): PipelineNode[] {
+export interface PipelineJob {
+  /** job 키 (YAML `jobs.<id>`) */
+  id: string
+  nodes: PipelineNode[]
+  /** 먼저 끝나야 하는 job id 목록 */
+  needs: string[]
+  /** 들어오는 엣지의 실행 조건. 모두 success면 빈 배열 */
+  conditions: JobCondition[]
+}
+
+/**
+ * job으로 들어오는 엣지 하나의 조건 (선행 job 기준)
+ */
+export interface JobCondition {
+  job: string
+  condition: EdgeCondition
+  expression?: string
+}
+
+/**
+ * DAG 스케줄 결과
+ * - stages: 최장 경로 기준 레벨별 노드 묶음 (같은 stage의 노드끼리는 서로 의존하지 않음)
+ * - jobs: 위상 순서로 정렬된 job 목록
+ * - waves: 동시에 실행 가능한 job 묶음. 앞선 wave가 모두 끝나야 다음 wave 실행
+ */
+export interface PipelineSchedule {
+  stages: PipelineNode[][]
+  jobs: PipelineJob[]
+  waves: PipelineJob[][]
+}
+
+/** GitHub Actions job id로 쓸 수 있는 형식 */
+const isJobId = (id: string | undefined): id is string => !!id && /^[A-Za-z_][A-Za-z0-9_-]*$/.test(id)
+
+/**
+ * 노드 라벨/종류로부터 YAML job 키를 생성 (영문/숫자/_ 만 허용). 가져온 job id가 있으면 그대로 사용
+ */
+const jobKeyFor = (node: PipelineNode): string => {
+  if (isJobId(node.data.job)) return node.data.job
+  const slug = (node.data.label || '').toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '')
+  const base = slug || node.data.kind
+  return /^[a-z_]/.test(base) ? base : `job_${base}`
+}
+
+/**
+ * DAG 스케줄러
+ * - `start`에서 도달 가능한 노드만 대상으로 Kahn 알고리즘으로 위상 정렬
+ * - 사이클에 걸린 노드, 존재하지 않는 노드를 가리키는 간선은 제외
+ * - 선행 노드가 하나뿐이고 그 선행 노드의 후속도 하나뿐이면 같은 job에 이어 붙이고,
+ *   분기(fan-out)/합류(fan-in) 지점에서는 새 job을 만들어 `needs`로 연결
+ * - success가 아닌 조건(실패 시/항상 등)의 엣지로 들어오는 노드도 새 job이 되고 조건은 `conditions`에 기록
+ * - 가져온 노드의 job id(`job`)가 선행 노드와 다르면 새 job을 만들고 그 id를 job 키로 사용
+ */
+export function schedulePipeline(nodes: PipelineNode[], edges: Edge[]): PipelineSchedule {
+  const start = nodes.find(n => n.data.kind === 'start')
+  if (!start) return { stages: [], jobs: [], waves: [] }
+
   const byId = new Map(nodes.map(n => [n.id, n]))
   const outgoing = new Map<string, string[]>()
+  // 같은 두 노드 사이에 엣지가 여럿이면 첫 번째 엣지의 조건 사용
+  const edgeOf = new Map<string, Edge>()
   edges.forEach(e => {
-    if (!outgoing.has(e.source)) outgoing.set(e.source, [])
-    outgoing.get(e.source)!.push(e.target)
+    if (!byId.has(e.source) || !byId.has(e.target) || e.source === e.target) return
+    const list = outgoing.get(e.source) ?? []
+    if (!list.includes(e.target)) list.push(e.target)
+    outgoing.set(e.source, list)
+    if (!edgeOf.has(`${e.source}->${e.target}`)) edgeOf.set(`${e.source}->${e.target}`, e)
   })
 
-  const start = nodes.find(n => n.data.kind === 'start')
-  if (!start) return []
-
-  const ordered: PipelineNode[] = []
-  const visited = new Set<string>()
-  let cursor: PipelineNode | undefined = start
-  while (cursor && !visited.has(cursor.id)) {
-    ordered.push(cursor)
-    visited.add(cursor.id)
-    const nextIds = (outgoing.get(cursor.id) || [])
-    if (nextIds.length !== 1) break
-    const next = byId.get(nextIds[0])
-    if (!next) break
-    cursor = next
+  // start에서 도달 가능한 노드 수집
+  const reachable = new Set<string>([start.id])
+  const stack = [start.id]
+  while (stack.length > 0) {
+    const id = stack.pop()!
+    for (const next of outgoing.get(id) ?? []) {
+      if (!reachable.has(next)) {
+        reachable.add(next)
+        stack.push(next)
+      }
+    }
+  }
+
+  const incoming = new Map<string, string[]>()
+  reachable.forEach(id => {
+    for (const next of outgoing.get(id) ?? []) {
+      incoming.set(next, [...(incoming.get(next) ?? []), id])
+    }
+  })
+
+  // Kahn 위상 정렬 + 최장 경로 레벨 계산
+  const indegree = new Map([...reachable].map(id => [id, (incoming.get(id) ?? []).length]))
+  const level = new Map<string, number>()
+  const order: string[] = []
+  const queue = [...reachable].filter(id => indegree.get(id) === 0)
+  queue.forEach(id => level.set(id, 0))
+  while (queue.length > 0) {
+    const id = queue.shift()!
+    order.push(id)
+    for (const next of outgoing.get(id) ?? []) {
+      level.set(next, Math.max(level.get(next) ?? 0, level.get(id)! + 1))
+      indegree.set(next, indegree.get(next)! - 1)
+      if (indegree.get(next) === 0) queue.push(next)
+    }
   }
-  return ordered
+  const scheduled = new Set(order)
+
+  const stages: PipelineNode[][] = []
+  order.forEach(id => {
+    const lv = level.get(id)!
+    if (!stages[lv]) stages[lv] = []
+    stages[lv].push(byId.get(id)!)
+  })
+
+  // 노드 체인을 job으로 묶기. 조건부 엣지로 들어오는 노드는 항상 새 job (job 단위로 조건 적용)
+  const jobs: PipelineJob[] = []
+  const jobOf = new Map<string, PipelineJob>()
+  const usedKeys = new Set<string>()
+  order.forEach(id => {
+    const node = byId.get(id)!
+    const preds = incoming.get(id) ?? []
+    const incomingEdges = preds.map(p => edgeOf.get(`${p}->${id}`)!)
+    const conditional = incomingEdges.some(e => edgeCondition(e) !== 'success')
+    if (preds.length === 1 && !conditional) {
+      const siblings = (outgoing.get(preds[0]) ?? []).filter(t => scheduled.has(t))
+      // 가져온 워크플로의 job 경계는 유지
+      const previousJob = byId.get(preds[0])!.data.job
+      const imported = isJobId(previousJob) && isJobId(node.data.job) && previousJob !== node.data.job
+      if (siblings.length === 1 && !imported) {
+        const job = jobOf.get(preds[0])!
+        // Start 노드만 있는 첫 job은 이어지는 노드의 가져온 job id를 사용
+        if (job.nodes.length === 1 && job.nodes[0].data.kind === 'start' && isJobId(node.data.job) && !usedKeys.has(node.data.job)) {
+          usedKeys.delete(job.id)
+          job.id = node.data.job
+          usedKeys.add(job.id)
+        }
+        job.nodes.push(node)
+        jobOf.set(id, job)
+        return
+      }
+    }
+    let key = jobs.length === 0 ? 'pipeline' : jobKeyFor(node)
+    for (let i = 2; usedKeys.has(key); i++) key = `${jobKeyFor(node)}_${i}`
+    usedKeys.add(key)
+    const needs = [...new Set(preds.map(p => jobOf.get(p)!.id))]
+    const conditions = conditional
+      ? incomingEdges.map(e => ({ job: jobOf.get(e.source)!.id, condition: edgeCondition(e), expression: (e.data as PipelineEdgeData | undefined)?.expression }))
+      : []
+    const job: PipelineJob = { id: key, nodes: [node], needs, conditions }
+    jobs.push(job)
+    jobOf.set(id, job)
+  })
+
+  // 선행 job이 모두 속한 wave 다음 wave에 배치
+  const waveOf = new Map<string, number>()
+  const waves: PipelineJob[][] = []
+  jobs.forEach(job => {
+    const wave = job.needs.reduce((max, need) => Math.max(max, waveOf.get(need)! + 1), 0)
+    waveOf.set(job.id, wave)
+    if (!waves[wave]) waves[wave] = []
+    waves[wave].push(job)
+  })
+
+  return { stages, jobs, waves }
 }
 
 /**
- * 정렬된 노드 시퀀스를 bash 스크립트로 병합
+ * 실행 순서대로 펼친 노드 목록
+ * - wave 순서 → wave 내부 job 순서 → job 내부 노드 순서
  */
-export function generateShell(nodes: PipelineNode[], edges: Edge[]): string {
-  const ordered = linearize(nodes, edges)
-  if (ordered.length === 0) return '# Add a Start node and connect stages to generate script.'
-  return ordered.map(n => nodeToScript(n.data)).join('')
+export function linearize(nodes: PipelineNode[], edges: Edge[]): PipelineNode[] {
+  return schedulePipeline(nodes, edges).waves.flat().flatMap(job => job.nodes)
 }
 
 /**
- * GitHub Actions YAML 생성
- * - 사용된 언어에 맞춰 setup 액션을 자동 추가
- * - 최종 run에는 `generateShell` 결과를 들여쓰기하여 삽입
+ * 노드 id → 단계 번호 (캔버스 노드/엣지 표시용)
+ * - 생성 스크립트와 같은 스케줄에서 계산하므로 번호 순서가 Shell/YAML 실행 순서와 일치
+ * - job 하나만 실행되는 wave: 노드마다 1, 2, 3 …
+ * - 병렬 wave: wave 전체가 번호 하나를 공유하고 job마다 a, b, … (job에 노드가 여럿이면 3a.1, 3a.2)
+ * - Start 노드와 Start에서 도달할 수 없는 노드는 번호 없음
+ */
+export function stepNumbers(nodes: PipelineNode[], edges: Edge[]): Map<string, string> {
+  const numbers = new Map<string, string>()
+  const branchName = (index: number) => (index < 26 ? String.fromCharCode(97 + index) : `_${index + 1}`)
+  let step = 0
+  schedulePipeline(nodes, edges).waves.forEach(wave => {
+    if (wave.length === 1) {
+      wave[0].nodes.forEach(n => { if (n.data.kind !== 'start') numbers.set(n.id, String(++step)) })
+      return
+    }
+    step++
+    wave.forEach((job, j) => {
+      const branch = `${step}${branchName(j)}`
+      const steps = job.nodes.filter(n => n.data.kind !== 'start')
+      steps.forEach((n, i) => numbers.set(n.id, steps.length === 1 ? branch : `${branch}.${i + 1}`))
+    })
+  })
+  return numbers
+}
+
+/**
+ * 환경 변수 export 한 줄. 변수 이름으로 쓸 수 없는 키는 주석으로 남김
  */
-export function generateYAML(nodes: PipelineNode[], edges: Edge[]): string {
-  const ordered = linearize(nodes, edges)
-  if (ordered.length === 0) return '# Add a Start node and connect stages to generate YAML.'
+const envExport = (key: string, value: string): string =>
+  isEnvName(key) ? `export ${key}=${shellQuote(value)}\n` : `# skipped invalid env name: ${shellComment(key)}\n`
 
+/**
+ * 노드 스니펫에 셸 실행용 내용을 덧붙임
+ * - 앞: 노드 환경 변수 export, 캐시 위치 설정, kubeconfig 설정, 사용하는 아티팩트 풀기
+ * - 뒤: 만든 아티팩트를 아티팩트 디렉터리에 보관
+ * - 작업 디렉터리가 있으면 노드 명령만 그 디렉터리의 서브셸에서 실행 (아티팩트 경로는 저장소 루트 기준)
+ * - artifacts: false면 아티팩트 처리 생략 (GitLab/Jenkins는 자체 아티팩트 기능 사용)
+ */
+const nodeShellScript = (n: PipelineNodeData, strict = false, artifacts = true): string => {
+  const exports = Object.entries(n.env ?? {}).map(([key, value]) => envExport(key, value)).join('')
+  const tool = cacheTool(n)
+  const setup = (tool ? cacheShell(tool) : '') + (n.kind === 'deploy_k8s' ? kubeconfigShell(n) : '')
+  const dir = n.workingDirectory?.trim()
+  const body = dir
+    ? `# Working directory: ${shellComment(dir)}\n(\ncd -- ${shellQuote(dir)} || exit 1\n${nodeToScript(n, strict)})\n`
+    : nodeToScript(n, strict)
+  const script = artifacts
+    ? `${exports}${setup}${unstashArtifacts(n.consumes ?? [])}${body}${stashArtifacts(producedArtifacts(n))}`
+    : `${exports}${setup}${body}`
+  // `${{ inputs.X }}`, `${{ matrix.X }}`는 셸 실행 시 INPUT_X, MATRIX_X 환경 변수로 대체
+  return substituteMatrix(substituteInputs(script))
+}
+
+/** job에 속한 노드들의 매트릭스를 합친 것 (없으면 undefined) */
+const jobMatrix = (job: PipelineJob): PipelineMatrix | undefined => mergeMatrices(job.nodes.map(n => n.data.matrix))
+
+/**
+ * job 스크립트에 매트릭스 반복 적용
+ * - Start 노드(스크립트 머리말)는 반복 밖에 두고 나머지 노드만 조합별로 실행
+ */
+const withMatrix = (job: PipelineJob, render: (nodes: PipelineNode[]) => string, robust = false): string => {
+  const matrix = jobMatrix(job)
+  if (!matrix) return render(job.nodes)
+  const start = job.nodes.filter(n => n.data.kind === 'start')
+  const rest = job.nodes.filter(n => n.data.kind !== 'start')
+  return render(start) + matrixShell(job.id, matrix, render(rest), robust)
+}
+
+/** 셸 스크립트에서 선언 없이 쓸 수 있는 변수 (셸/러너가 제공) */
+const BUILTIN_VARIABLES = new Set(['HOME', 'PATH', 'PWD', 'OLDPWD', 'USER', 'SHELL', 'HOSTNAME', 'LANG', 'TMPDIR', 'IFS', 'RANDOM', 'SECONDS', 'LINENO', 'UID', 'EUID', 'CI', 'JAVA_HOME', 'VIRTUAL_ENV', 'PIPELINE_CACHE_DIR'])
+const BUILTIN_PREFIXES = ['GITHUB_', 'RUNNER_', 'CI_', 'BASH_']
+
+/**
+ * 노드 스크립트가 참조하지만 스크립트 안에서 정의하지 않는 셸 변수 이름
+ * - 생성되는 스니펫 기준 (예: notify_slack의 `$SLACK_WEBHOOK`)
+ * - 셸/CI 러너 기본 변수와 노드 env는 제외
+ */
+export function referencedVariables(n: PipelineNodeData): string[] {
+  const script = nodeToScript(n)
+  const assigned = new Set([
+    ...Object.keys(n.env ?? {}),
+    ...[...script.matchAll(/(?:^|[\s;&|(])(?:export\s+|local\s+|readonly\s+)?([A-Za-z_][A-Za-z0-9_]*)=/g)].map(m => m[1]),
+    ...[...script.matchAll(/\b(?:for|read(?:\s+-\w+)*)\s+([A-Za-z_][A-Za-z0-9_]*)/g)].map(m => m[1])
+  ])
+  const used = [...script.matchAll(/\$\{?([A-Za-z_][A-Za-z0-9_]*)/g)].map(m => m[1])
+  return [...new Set(used)].filter(name =>
+    !assigned.has(name) && !BUILTIN_VARIABLES.has(name) && !BUILTIN_PREFIXES.some(prefix => name.startsWith(prefix)))
+}
+
+/**
+ * 노드 속성에서 `${{ secrets.NAME }}` 형태로 참조하는 시크릿 이름 (GitHub Actions 표현식)
+ */
+export function referencedSecrets(n: PipelineNodeData): string[] {
+  const texts = [n.command, n.script, n.deployScript, n.condition, ...Object.values(n.env ?? {}), ...Object.values(n.with ?? {})]
+  const names = texts.flatMap(t => [...(t ?? '').matchAll(/\bsecrets\.([A-Za-z_][A-Za-z0-9_]*)/g)].map(m => m[1]))
+  // Kubernetes 배포 노드는 kubeconfig 시크릿을 사용
+  if (n.kind === 'deploy_k8s') names.push(kubeconfigSecret(n))
+  return [...new Set(names)]
+}
+
+/** 시크릿 이름 → `${{ secrets.NAME }}` 환경 변수 매핑 */
+const secretEnv = (names: string[] | undefined): Record<string, string> =>
+  Object.fromEntries((names ?? []).filter(isEnvName).map(name => [name, `\${{ secrets.${name} }}`]))
+
+/**
+ * 스크립트 머리 부분의 환경 설정
+ * - 수동 실행 입력값 기본값 (INPUT_X)
+ * - 파이프라인 변수 export
+ * - 파이프라인/노드 시크릿은 실행 전에 설정되어 있는지 확인 (`: "${NAME:?}"`)
+ * - 아티팩트를 쓰는 노드가 있으면 아티팩트 디렉터리 준비
+ */
+const envPrelude = (nodes: PipelineNode[], env: Record<string, string> = {}, secrets: string[] = []): string => {
+  const required = [...new Set([...secrets, ...nodes.flatMap(n => n.data.secrets ?? [])])]
+  const exports = Object.entries(env).map(([key, value]) => envExport(key, value)).join('')
+  const checks = required
+    .map(name => (isEnvName(name) ? `: "\${${name}:?${name} is not set}"\n` : `# skipped invalid secret name: ${shellComment(name)}\n`))
+    .join('')
+  const inputs = nodes.find(n => n.data.kind === 'start')?.data.triggers?.dispatch?.inputs ?? []
+  const artifacts = nodes.some(n => producedArtifacts(n.data).length > 0 || n.data.consumes?.length) ? ARTIFACTS_PRELUDE : ''
+  return inputsPrelude(inputs) + (exports ? `# Pipeline environment\n${exports}` : '') + (checks ? `# Required secrets\n${checks}` : '') + artifacts
+}
+
+/**
+ * job 하나의 노드들을 bash 스니펫으로 병합
+ * - startPrelude: Start 노드 스니펫 바로 뒤에 넣을 내용 (환경 설정)
+ */
+const jobScript = (job: PipelineJob, startPrelude = ''): string =>
+  withMatrix(job, nodesScript(startPrelude))
+
+/** 노드 스니펫을 순서대로 이어 붙임 (매트릭스 반복 없이) */
+const nodesScript = (startPrelude = '', artifacts = true) => (nodes: PipelineNode[]): string =>
+  nodes.map(n => nodeShellScript(n.data, false, artifacts) + (n.data.kind === 'start' ? startPrelude : '')).join('')
+
+/**
+ * 서로 독립적인 job들을 백그라운드 서브셸로 동시에 실행하고 모두 기다림
+ * - 하나라도 실패하면 전체 스크립트를 실패 처리
+ * - body: job 하나를 실행하는 스크립트 (일반 모드는 노드 스니펫, robust 모드는 stage 함수 호출)
+ */
+const parallelScript = (wave: PipelineJob[], body: (job: PipelineJob) => string, onFailure = '', tracked = false): string => {
+  const header = `# Parallel: ${wave.map(job => job.id).join(', ')}\n`
+  if (tracked) {
+    // job별 결과를 JOB_STATUS에 기록 (조건부 경로 판단용)
+    const branches = wave.map((job, i) => `(\n${body(job)}) &\nPID_${i}=$!\n`).join('')
+    const waits = wave.map((job, i) => `if wait "$PID_${i}"; then JOB_STATUS[${job.id}]=success; else JOB_STATUS[${job.id}]=failure; FAILED=1; fi\n`).join('')
+    return `${header}CURRENT_JOB=""\n${branches}FAILED=0\n${waits}if [ "$FAILED" -ne 0 ]; then ${onFailure}exit 1; fi\n`
+  }
+  const branches = wave.map(job => `(\n${body(job)}) &\nPIDS="$PIDS $!"\n`).join('')
+  return `${header}PIDS=""\n${branches}FAILED=0\nfor pid in $PIDS; do wait "$pid" || FAILED=1; done\nif [ "$FAILED" -ne 0 ]; then ${onFailure}exit 1; fi\n`
+}
+
+/**
+ * 조건부 엣지(success 이외)로 시작되는 job과 그 후속 job id
+ * - 셸에서는 본 흐름이 끝난 뒤(EXIT trap) 실행, GitHub Actions에서는 job `if:`가 필요
+ */
+const conditionalJobs = (jobs: PipelineJob[]): Set<string> => {
+  const result = new Set<string>()
+  jobs.forEach(job => {
+    if (job.conditions.length > 0 || job.needs.some(need => result.has(need))) result.add(job.id)
+  })
+  return result
+}
+
+/** 엣지 조건 → 셸 실행 조건 (custom 조건식은 로컬에서 평가할 수 없으므로 success와 같게 처리) */
+const shellGate = ({ job, condition }: JobCondition): string | undefined => {
+  if (condition === 'always') return undefined
+  return condition === 'failure' ? `job_failed ${job}` : `job_ok ${job}`
+}
+
+/**
+ * 조건부 경로 추적 스크립트
+ * - JOB_STATUS: job별 결과 (success / failure / skipped), CURRENT_JOB: 실행 중인 job
+ * - 본 흐름이 실패하거나 끝나면 EXIT trap(on_exit)에서 조건부 job을 순서대로 실행
+ * - 조건부 job은 서브셸에서 실행하여 실패해도 나머지 조건부 job(예: 항상 실행하는 정리 단계)은 계속 진행
+ * - 원래 실패 상태는 유지하고, 조건부 job이 실패하면 종료 코드 1
+ * - 일반(non-robust) 모드에서도 `set -e`로 실패한 지점에서 본 흐름을 멈춤 (실패 경로 판단 기준)
+ */
+const conditionalPrelude = (firstJob: string, deferred: PipelineJob[], body: (job: PipelineJob) => string, strict: boolean): string => {
+  const blocks = deferred.map(job => {
+    const gates = job.conditions.length > 0
+      ? job.conditions.map(shellGate).filter((g): g is string => !!g)
+      : job.needs.map(need => `job_ok ${need}`)
+    const custom = job.conditions.filter(c => c.condition === 'custom')
+      .map(c => `# custom condition (CI only, runs on success of ${c.job} here): ${shellComment(c.expression || '')}\n`).join('')
+    const description = job.conditions.length > 0 ? job.conditions.map(c => `${c.condition}: ${c.job}`).join(', ') : `after ${job.needs.join(', ')}`
+    const run = `CURRENT_JOB=${job.id}\n` +
+      `echo ${shellQuote(`↪ ${job.id} (${description})`)}\n` +
+      `(\nset -e\n${body(job)}) &\n` +
+      `if wait "$!"; then JOB_STATUS[${job.id}]=success; else JOB_STATUS[${job.id}]=failure; PIPELINE_FAILED=1; fi\n`
+    return gates.length > 0 ? `${custom}if ${gates.join(' && ')}; then\n${run}else\nJOB_STATUS[${job.id}]=skipped\nfi\n` : custom + run
+  }).join('')
+  return `# Conditional paths (on failure / always)
+${strict ? '' : 'set -e\n'}declare -A JOB_STATUS=()
+CURRENT_JOB=${firstJob}
+PIPELINE_FAILED=0
+job_ok() { [ "\${JOB_STATUS[$1]:-}" = success ]; }
+# 실패했거나, 앞선 실패로 실행되지 않은 경우
+job_failed() { [ "\${JOB_STATUS[$1]:-}" = failure ] || { [ "\${JOB_STATUS[$1]:-skipped}" = skipped ] && [ "$PIPELINE_FAILED" -eq 1 ]; }; }
+on_exit() {
+local status=$?
+trap - EXIT
+set +e
+if [ "$status" -ne 0 ]; then
+PIPELINE_FAILED=1
+if [ -n "$CURRENT_JOB" ]; then JOB_STATUS[$CURRENT_JOB]=failure; fi
+fi
+${blocks}if [ "$status" -eq 0 ] && [ "$PIPELINE_FAILED" -eq 1 ]; then status=1; fi
+exit "$status"
+}
+trap on_exit EXIT
+`
+}
+
+/**
+ * 본 흐름의 job 실행 전후로 상태 기록 (조건부 경로가 있을 때만)
+ * - Start 노드가 있는 첫 job은 셔뱅 앞에 내용을 둘 수 없으므로 CURRENT_JOB을 머리말에서 지정
+ */
+const trackedJob = (job: PipelineJob, script: string): string => {
+  const begin = job.nodes.some(n => n.data.kind === 'start') ? '' : `CURRENT_JOB=${job.id}\n`
+  return `${begin}${script}JOB_STATUS[${job.id}]=success\n`
+}
+
+/**
+ * Shell 생성 옵션
+ * - robust: `set -Eeuo pipefail`, 노드별 stage 함수, 단계 배너/소요 시간, ERR trap으로 실패 단계 보고
+ * - env / secrets: 파이프라인 설정의 환경 변수와 시크릿 이름
+ */
+export interface ShellOptions {
+  robust?: boolean
+  env?: Record<string, string>
+  secrets?: string[]
+}
+
+/** robust 모드 공통 머리말: strict 모드, 실패 단계 보고, stage 실행기 */
+const ROBUST_PRELUDE = `#!/usr/bin/env bash
+# CI/CD Pipeline (robust mode)
+set -Eeuo pipefail
+
+CURRENT_STAGE="init"
+PIPELINE_START=$SECONDS
+trap 'status=$?; echo "❌ Stage failed: \${CURRENT_STAGE} (exit \${status})" >&2' ERR
+
+# run_stage <label> <function>: 단계 배너와 소요 시간 출력
+run_stage() {
+  local label="$1"
+  local started=$SECONDS
+  CURRENT_STAGE="$label"
+  echo "▶ \${label}"
+  "$2"
+  echo "✔ \${label} ($((SECONDS - started))s)"
+}
+`
+
+/**
+ * continueOnError 노드용 실행기
+ * - `||` 문맥에서는 함수 안의 `set -e`가 무시되므로, 백그라운드 서브셸에서 실행하고 wait 결과로 판정
+ * - 서브셸 안의 변경(export, cd)은 이후 단계에 전달되지 않음
+ */
+const ROBUST_SOFT_RUNNER = `
+# run_soft_stage <label> <function>: 실패해도 경고만 출력하고 계속 진행
+run_soft_stage() {
+  local label="$1"
+  local started=$SECONDS
+  local status=0
+  CURRENT_STAGE="$label"
+  echo "▶ \${label}"
+  (trap - ERR; "$2") &
+  wait "$!" || status=$?
+  if [ "$status" -ne 0 ]; then
+    echo "⚠ \${label} failed (exit \${status}), continuing ($((SECONDS - started))s)" >&2
+  else
+    echo "✔ \${label} ($((SECONDS - started))s)"
+  fi
+}
+`
+
+/** 노드 id → bash 함수 이름 */
+const stageFunctionName = (node: PipelineNode): string => `stage_${node.id.replace(/[^A-Za-z0-9_]/g, '_')}`
+
+/**
+ * 노드 하나를 bash 함수로 정의
+ * - 본문은 heredoc이 깨지지 않도록 들여쓰지 않음
+ * - 주석뿐인 본문은 문법 오류가 되므로 `:`(no-op)을 추가
+ */
+const stageFunction = (node: PipelineNode): string => {
+  const body = nodeShellScript(node.data, true)
+  const commentsOnly = body.split('\n').every(line => /^\s*(#.*)?$/.test(line))
+  return `${stageFunctionName(node)}() {\n${body}${commentsOnly ? ':\n' : ''}}\n`
+}
+
+/**
+ * stage 함수 호출. continueOnError 노드는 실패 시 경고만 출력하고 계속 진행
+ */
+const stageCall = (node: PipelineNode): string => {
+  const runner = node.data.continueOnError ? 'run_soft_stage' : 'run_stage'
+  return `${runner} ${shellQuote(node.data.label || node.data.kind)} ${stageFunctionName(node)}\n`
+}
+
+/**
+ * robust 모드 스크립트: 함수 정의부 + 순서대로 호출하는 본문
+ */
+const robustShell = (waves: PipelineJob[][], prelude: string): string => {
+  const jobs = waves.flat()
+  const stageNodes = jobs.flatMap(job => job.nodes).filter(n => n.data.kind !== 'start')
+  const definitions = stageNodes.map(stageFunction).join('\n')
+  const jobCalls = (job: PipelineJob) => withMatrix(job, nodes => nodes.filter(n => n.data.kind !== 'start').map(stageCall).join(''), true)
+  const deferred = conditionalJobs(jobs)
+  const tracked = deferred.size > 0
+  const main = waves
+    .map(wave => wave.filter(job => !deferred.has(job.id)))
+    .filter(wave => wave.length > 0)
+    .map(wave => (wave.length === 1
+      ? (tracked ? trackedJob(wave[0], jobCalls(wave[0])) : jobCalls(wave[0]))
+      : parallelScript(wave, jobCalls, `echo ${shellQuote(`❌ Parallel stages failed: ${wave.map(job => job.id).join(', ')}`)} >&2; `, tracked)))
+    .join('')
+  const conditional = tracked ? conditionalPrelude(jobs[0].id, jobs.filter(job => deferred.has(job.id)), jobCalls, true) : ''
+  const softRunner = stageNodes.some(n => n.data.continueOnError) ? ROBUST_SOFT_RUNNER : ''
+  return `${ROBUST_PRELUDE}${softRunner}\n${prelude}echo "🚀 Starting pipeline..."\n\n${definitions}\n${conditional}# Main\n${main}echo "🏁 Pipeline finished in $((SECONDS - PIPELINE_START))s"\n`
+}
+
+/**
+ * 스케줄된 job들을 bash 스크립트로 병합
+ * - 동시에 실행 가능한 job이 여럿이면 백그라운드 실행 + wait
+ * - options.robust: 노드별 함수와 오류 추적을 갖춘 strict 모드 스크립트
+ */
+export function generateShell(nodes: PipelineNode[], edges: Edge[], options: ShellOptions = {}): string {
+  const { waves } = schedulePipeline(resolveImageSources(nodes), edges)
+  if (waves.length === 0) return '# Add a Start node and connect stages to generate script.'
+  const jobs = waves.flat()
+  const prelude = envPrelude(jobs.flatMap(job => job.nodes), options.env, options.secrets)
+  if (options.robust) return robustShell(waves, prelude)
+  const deferred = conditionalJobs(jobs)
+  if (deferred.size > 0) {
+    // 조건부 경로: 본 흐름은 job 결과를 기록하며 실행하고, 조건부 job은 EXIT trap에서 실행
+    const fullPrelude = prelude + conditionalPrelude(jobs[0].id, jobs.filter(job => deferred.has(job.id)), job => jobScript(job), false)
+    const main = waves
+      .map(wave => wave.filter(job => !deferred.has(job.id)))
+      .filter(wave => wave.length > 0)
+      .map(wave => (wave.length === 1 ? trackedJob(wave[0], jobScript(wave[0], fullPrelude)) : parallelScript(wave, job => jobScript(job), '', true)))
+      .join('')
+    return nodes.some(n => n.data.kind === 'start') ? main : fullPrelude + main
+  }
+  const script = waves.map(wave => (wave.length === 1 ? jobScript(wave[0], prelude) : parallelScript(wave, job => jobScript(job)))).join('')
+  // Start 노드가 없으면 환경 설정을 맨 앞에 둠
+  return nodes.some(n => n.data.kind === 'start') ? script : prelude + script
+}
+
+/**
+ * 노드 목록에서 사용된 언어 집합을 추출 (setup 액션 결정용)
+ */
+const languagesOf = (nodes: PipelineNode[]): Set<string> => {
   const used = new Set<string>()
-  ordered.forEach(n => {
+  nodes.forEach(n => {
     const k = n.data.kind
     if (k.includes('node') || k.includes('npm') || n.data.lang === 'javascript') used.add('javascript')
     if (k.includes('python') || n.data.lang === 'python') used.add('python')
     if (k.includes('java') || n.data.lang === 'java') used.add('java')
   })
+  return used
+}
+
+/**
+ * 사용 언어별 GitHub Actions setup 스텝
+ * - 매트릭스에 버전 축이 있으면 `${{ matrix.축 }}`으로 버전 지정
+ * - caches: 언어별 setup 액션 캐시 입력 (`cache`, `cache-dependency-path`)
+ */
+const setupSteps = (used: Set<string>, matrix?: PipelineMatrix, caches: Record<string, Record<string, string>> = {}): YAMLValue[] => {
+  const version = (lang: keyof typeof VERSION_AXES, fallback: string) => {
+    const axis = findAxis(matrix, VERSION_AXES[lang])
+    return axis ? `\${{ matrix.${axis} }}` : fallback
+  }
+  const steps: YAMLValue[] = []
+  if (used.has('javascript')) steps.push({ name: 'Setup Node.js', uses: 'actions/setup-node@v3', with: { 'node-version': version('javascript', '18'), ...caches.javascript } })
+  if (used.has('python')) steps.push({ name: 'Setup Python', uses: 'actions/setup-python@v4', with: { 'python-version': version('python', '3.x'), ...caches.python } })
+  if (used.has('java')) steps.push({ name: 'Setup Java', uses: 'actions/setup-java@v3', with: { distribution: 'temurin', 'java-version': version('java', '17'), ...caches.java } })
+  return steps
+}
+
+/**
+ * job의 prebuild 노드 캐시 설정 → setup 액션 캐시 입력과 `actions/cache` step
+ * - 자동 추가되는 setup step이 있고 restore key가 없으면 setup 액션 캐시 사용 (언어별 첫 노드만)
+ */
+const jobCaches = (job: PipelineJob, used: Set<string>): { setup: Record<string, Record<string, string>>, steps: YAMLValue[] } => {
+  const setup: Record<string, Record<string, string>> = {}
+  const steps: YAMLValue[] = []
+  job.nodes.forEach(n => {
+    const tool = cacheTool(n.data)
+    if (!tool || !n.data.cache) return
+    const lang = cacheLanguage(tool)
+    if (usesSetupCache(tool, n.data.cache) && used.has(lang) && !setup[lang]) setup[lang] = setupCacheInputs(tool, n.data.cache)
+    else steps.push(cacheStep(tool, n.data.cache))
+  })
+  return { setup, steps }
+}
 
-  const setup: string[] = []
-  if (used.has('javascript')) setup.push("      - name: Setup Node.js\n        uses: actions/setup-node@v3\n        with:\n          node-version: '18'")
-  if (used.has('python')) setup.push("      - name: Setup Python\n        uses: actions/setup-python@v4\n        with:\n          python-version: '3.x'")
-  if (used.has('java')) setup.push("      - name: Setup Java\n        uses: actions/setup-java@v3\n        with:\n          distribution: 'temurin'\n          java-version: '17'")
+/**
+ * 노드 id → GitHub Actions step id (영문자/_로 시작, 영문/숫자/-/_만 허용)
+ */
+const stepIdFor = (node: PipelineNode): string => {
+  const base = node.id.replace(/[^A-Za-z0-9_-]/g, '_')
+  return /^[A-Za-z_]/.test(base) ? base : `step_${base}`
+}
 
-  // bash 스크립트를 생성해 YAML run 블록에 삽입
-  const script = generateShell(nodes, edges)
-  const indented = script.split('\n').map(l => (l ? '          ' + l : '')).join('\n')
+/** 비어 있으면 undefined (YAML 출력에서 키 생략) */
+const nonEmpty = (map: Record<string, string> | undefined): Record<string, string> | undefined =>
+  map && Object.keys(map).length > 0 ? map : undefined
+
+/**
+ * job 하나의 GitHub Actions step 목록
+ * - checkout/setup 액션을 직접 사용하는 노드가 있으면 자동 추가 step은 생략
+ * - `uses` 노드는 액션 step으로 출력
+ * - Docker 옵션이 있는 docker_build 노드는 buildx/login/metadata/build-push 액션 step으로 출력
+ * - deploy_k8s 노드는 도구 설치/클러스터 컨텍스트 액션 step 뒤에 단독 run step으로 출력
+ * - perNode: 나머지 노드도 노드마다 이름과 id(노드 id 기준)가 있는 run step 하나씩 (Start 노드는 제외)
+ * - perNode가 아니면 `if`/`env`/작업 디렉터리가 있는 노드만 단독 run step, 나머지 연속된 노드들은 하나의 run step으로 묶음
+ * - 다른 job이 만든 아티팩트는 시작할 때 내려받고, 다른 job이 쓰는 아티팩트는 끝날 때 업로드
+ * - matrixJobs: 매트릭스로 실행되는 job id (조합별 이름으로 업로드하므로 다운로드는 패턴 사용)
+ */
+const jobSteps = (job: PipelineJob, artifacts: { uploads: PipelineArtifact[], downloads: ArtifactDownload[] }, perNode: boolean, matrixJobs: Set<string>): YAMLValue[] => {
+  const usesAction = (action: string) => job.nodes.some(n => n.data.uses?.includes(action))
+  const steps: YAMLValue[] = []
+  if (!usesAction('actions/checkout')) steps.push({ name: 'Checkout code', uses: 'actions/checkout@v3' })
+  const used = languagesOf(job.nodes)
+  if (usesAction('actions/setup-node')) used.delete('javascript')
+  if (usesAction('actions/setup-python')) used.delete('python')
+  if (usesAction('actions/setup-java')) used.delete('java')
+  const caches = jobCaches(job, used)
+  steps.push(...setupSteps(used, jobMatrix(job), caches.setup), ...caches.steps)
+  steps.push(...artifacts.downloads.map(d => downloadStep(d.artifact, matrixJobs.has(d.from))))
 
-  return `# Generated CI/CD Pipeline\nname: ReactFlow CI/CD Pipeline\non: [push, pull_request]\njobs:\n  pipeline:\n    runs-on: ubuntu-latest\n    steps:\n      - name: Checkout code\n        uses: actions/checkout@v3\n${setup.join('\n')}\n      - name: Execute Pipeline\n        shell: bash\n        run: |\n${indented}`
+  let pending: PipelineNode[] = []
+  const flush = () => {
+    if (pending.length > 0) steps.push({ name: 'Execute Pipeline', shell: 'bash', run: pending.map(n => nodeToScript(n.data)).join('') })
+    pending = []
+  }
+  job.nodes.forEach(n => {
+    if (perNode && n.data.kind === 'start') return
+    const { label, uses, condition } = n.data
+    const env = nonEmpty({ ...n.data.env, ...secretEnv(n.data.secrets) })
+    const continueOnError = n.data.continueOnError || undefined
+    const workingDirectory = n.data.workingDirectory?.trim() || undefined
+    const id = perNode ? stepIdFor(n) : undefined
+    if (uses) {
+      flush()
+      // 액션 step에는 working-directory를 쓸 수 없음
+      steps.push({ name: label || uses, id, if: condition, 'continue-on-error': continueOnError, uses, with: nonEmpty(n.data.with), env })
+    } else if (n.data.kind === 'docker_build' && n.data.docker) {
+      flush()
+      const build = { dockerfile: dequote(n.data.dockerfile), image: dequote(n.data.tag) }
+      const metaId = `meta_${n.id.replace(/[^A-Za-z0-9_]/g, '_')}`
+      steps.push(...dockerSteps(build, n.data.docker, metaId, { name: label, id, condition, continueOnError, env, workingDirectory }))
+    } else if (n.data.kind === 'deploy_k8s') {
+      flush()
+      steps.push(...k8sSteps(n.data, {
+        name: label || 'Deploy to Kubernetes', id, if: condition, 'continue-on-error': continueOnError, 'working-directory': workingDirectory, env, shell: 'bash', run: nodeToScript(n.data)
+      }))
+    } else if (perNode || condition || env || continueOnError || workingDirectory) {
+      flush()
+      steps.push({ name: label || n.data.kind, id, if: condition, 'continue-on-error': continueOnError, 'working-directory': workingDirectory, env, shell: 'bash', run: nodeToScript(n.data) })
+    } else {
+      pending.push(n)
+    }
+  })
+  flush()
+  steps.push(...artifacts.uploads.map(a => uploadStep(a, matrixKeys(jobMatrix(job)))))
+  return steps
+}
+
+/**
+ * 조건부 경로에 있는 job의 GitHub Actions `if:` 조건
+ * - 들어오는 조건부 엣지가 하나면 `failure()` / `always()` / 조건식 그대로
+ * - 여럿이면 선행 job 결과(`needs.<job>.result`)를 모두 만족해야 실행
+ * - 조건부 job 뒤에 success로 이어진 job은 앞선 실패와 관계없이 직전 job의 성공 여부로 판단
+ */
+const jobCondition = (job: PipelineJob, conditional: Set<string>): string | undefined => {
+  if (!conditional.has(job.id)) return undefined
+  const expression = (c: JobCondition) => unwrapExpression(c.expression || '') || `needs.${c.job}.result == 'success'`
+  if (job.conditions.length === 1) {
+    const [c] = job.conditions
+    if (c.condition === 'failure') return 'failure()'
+    if (c.condition === 'always') return 'always()'
+    if (c.condition === 'custom') return `\${{ ${expression(c)} }}`
+  }
+  const gates = job.conditions.length > 0
+    ? job.conditions.map(c => {
+      if (c.condition === 'failure') return `needs.${c.job}.result == 'failure'`
+      if (c.condition === 'custom') return `(${expression(c)})`
+      return c.condition === 'success' ? `needs.${c.job}.result == 'success'` : undefined
+    }).filter((g): g is string => !!g)
+    : job.needs.map(need => `needs.${need}.result == 'success'`)
+  return gates.length > 0 ? `\${{ !cancelled() && ${gates.join(' && ')} }}` : 'always()'
+}
+
+/**
+ * GitHub Actions YAML 생성
+ * - 스케줄된 job마다 GitHub Actions job을 하나씩 만들고 `needs:`로 의존성 표현
+ * - job에서 사용된 언어에 맞춰 setup 액션을 자동 추가
+ * - 노드마다 step을 하나씩 만들거나(기본), job 노드들의 bash 스크립트를 run step 하나에 묶음 (`stepPerNode`)
+ */
+export function generateYAML(nodes: PipelineNode[], edges: Edge[], settings: Partial<PipelineSettings> = {}): string {
+  const { jobs } = schedulePipeline(resolveImageSources(nodes), edges)
+  if (jobs.length === 0) return '# Add a Start node and connect stages to generate YAML.'
+  const conditional = conditionalJobs(jobs)
+  const transfers = artifactTransfers(jobs)
+  const matrixJobs = new Set(jobs.filter(job => jobMatrix(job)).map(job => job.id))
+
+  const workflow: { [key: string]: YAMLValue } = {
+    name: settings.name?.trim() || DEFAULT_PIPELINE_SETTINGS.name,
+    on: triggersToYAML(nodes.find(n => n.data.kind === 'start')?.data.triggers),
+    env: nonEmpty({ ...settings.env, ...secretEnv(settings.secrets) }),
+    jobs: Object.fromEntries(jobs.map(job => {
+      const matrix = jobMatrix(job)
+      return [job.id, {
+        needs: job.needs.length > 0 ? job.needs : undefined,
+        if: jobCondition(job, conditional),
+        strategy: matrix && { 'fail-fast': false, matrix: matrixToYAML(matrix) },
+        'runs-on': findAxis(matrix, [OS_AXIS]) ? `\${{ matrix.${OS_AXIS} }}` : 'ubuntu-latest',
+        steps: jobSteps(job, transfers.get(job.id)!, settings.stepPerNode ?? DEFAULT_PIPELINE_SETTINGS.stepPerNode, matrixJobs)
+      }]
+    }))
+  }
+
+  return `# Generated CI/CD Pipeline\n${toYAML(workflow)}`
+}
+
+/** GitLab CI에서 job 이름으로 쓸 수 없는 최상위 키워드 */
+const GITLAB_RESERVED_KEYS = new Set(['image', 'services', 'stages', 'types', 'before_script', 'after_script', 'variables', 'cache', 'include', 'default', 'workflow', 'pages'])
+
+/**
+ * 매트릭스 → GitLab `parallel:matrix` (MATRIX_X 변수)
+ * - include/exclude 규칙이 GitLab과 다르므로 계산된 조합을 하나씩 나열
+ * - os 축은 러너 이미지로 바꿀 수 없으므로 제외
+ */
+const gitlabMatrix = (matrix: PipelineMatrix): YAMLValue[] =>
+  localCombinations(matrix).map(combo => Object.fromEntries(
+    Object.entries(combo).filter(([, value]) => value !== '').map(([key, value]) => [matrixVariable(key), value])))
+
+/**
+ * 엣지 조건 → GitLab `when:`
+ * - 모든 조건이 failure면 on_failure, always면 always
+ * - custom 조건식은 GitHub Actions 문법이라 옮기지 않음 (기본 on_success)
+ */
+const gitlabWhen = (job: PipelineJob): string | undefined => {
+  if (job.conditions.length === 0) return undefined
+  if (job.conditions.every(c => c.condition === 'failure')) return 'on_failure'
+  if (job.conditions.every(c => c.condition === 'always')) return 'always'
+  return undefined
+}
+
+/**
+ * job에 사용할 GitLab 컨테이너 이미지 선택
+ * - Docker 빌드가 있으면 docker 이미지(+dind 서비스), Kubernetes 배포는 kubectl/helm 이미지, 아니면 사용 언어 기준
+ */
+const gitlabImageFor = (job: PipelineJob): { image: string, docker: boolean } => {
+  if (job.nodes.some(n => n.data.kind === 'docker_build')) return { image: 'docker:24', docker: true }
+  if (job.nodes.some(n => n.data.kind === 'deploy_k8s')) return { image: 'alpine/k8s:1.29.2', docker: false }
+  const used = languagesOf(job.nodes)
+  if (used.has('javascript')) return { image: 'node:18', docker: false }
+  if (used.has('python')) return { image: 'python:3.11', docker: false }
+  if (used.has('java')) return { image: 'eclipse-temurin:17', docker: false }
+  return { image: 'ubuntu:22.04', docker: false }
+}
+
+/**
+ * GitLab CI (.gitlab-ci.yml) 생성
+ * - 스케줄된 job마다 GitLab job을 하나씩 만들고 `needs:`로 의존성 표현
+ * - stage는 job에 포함된 노드 분류 중 가장 늦은 것. 선행 job보다 앞설 수 없음
+ * - script에는 job 노드들의 bash 스크립트를 블록 스칼라로 삽입
+ * - 다른 job이 쓰는 아티팩트 경로는 `artifacts:`로 보관
+ */
+export function generateGitLabCI(nodes: PipelineNode[], edges: Edge[]): string {
+  const { jobs } = schedulePipeline(resolveImageSources(nodes), edges)
+  if (jobs.length === 0) return '# Add a Start node and connect stages to generate .gitlab-ci.yml.'
+
+  const keyOf = (id: string) => (GITLAB_RESERVED_KEYS.has(id) ? `${id}_job` : id)
+  const stageIndex = new Map<string, number>()
+  jobs.forEach(job => {
+    const own = Math.max(...job.nodes.map(n => NODE_CATEGORIES.indexOf(nodeCategory(n.data.kind))))
+    stageIndex.set(job.id, job.needs.reduce((max, need) => Math.max(max, stageIndex.get(need)!), own))
+  })
+  const stages = NODE_CATEGORIES.filter((_, i) => [...stageIndex.values()].includes(i))
+  const transfers = artifactTransfers(jobs)
+
+  // job 사이에 빈 줄을 두기 위해 job별로 직렬화
+  const jobBlocks = jobs.map(job => {
+    const { image, docker } = gitlabImageFor(job)
+    const matrix = jobMatrix(job)
+    const { uploads, downloads } = transfers.get(job.id)!
+    // 아티팩트는 needs에 있는 job에서만 받으므로 만드는 job을 needs에 추가
+    const needs = [...new Set([...job.needs, ...downloads.map(d => d.from)])]
+    return toYAML({
+      [keyOf(job.id)]: {
+        stage: NODE_CATEGORIES[stageIndex.get(job.id)!],
+        image,
+        services: docker ? ['docker:24-dind'] : undefined,
+        variables: docker ? { DOCKER_TLS_CERTDIR: '/certs' } : undefined,
+        needs: needs.length > 0 ? needs.map(keyOf) : undefined,
+        when: gitlabWhen(job),
+        parallel: matrix && { matrix: gitlabMatrix(matrix) },
+        // 매트릭스 조합은 GitLab이 job별로 나눠 실행하므로 스크립트에서는 반복하지 않음
+        script: [nodesScript('', false)(job.nodes)],
+        artifacts: uploads.length > 0 ? { paths: [...new Set(uploads.flatMap(a => a.paths))] } : undefined
+      }
+    })
+  })
+
+  return `# Generated GitLab CI Pipeline\n${toYAML({ stages })}\n${jobBlocks.join('\n')}`
+}
+
+/**
+ * Groovy 작은따옴표 문자열 리터럴 (보간 없음)
+ */
+const groovyString = (s: string): string => `'${s.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
+
+/**
+ * `sh` 스텝용 Groovy 삼중 따옴표 문자열
+ * - 작은따옴표를 모두 이스케이프하여 `'''` 종료 구분자와 충돌하지 않도록 함
+ */
+const groovyMultiline = (s: string): string => `'''\n${s.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'''`
+
+/**
+ * Jenkins 선언형 파이프라인(Jenkinsfile) 생성
+ * - 노드 하나가 `stage { steps { sh ... } }` 하나가 됨 (Start 노드는 제외)
+ * - 동시에 실행 가능한 job들은 `parallel {}` 블록으로 묶음
+ * - `notify_slack` 노드는 stage 대신 `post { success {} }`의 `slackSend`로 변환
+ * - 실패 시/항상 엣지로 이어진 노드는 `post { failure {} }` / `post { always {} }`에서 실행
+ */
+export function generateJenkinsfile(nodes: PipelineNode[], edges: Edge[]): string {
+  const { waves } = schedulePipeline(resolveImageSources(nodes), edges)
+  if (waves.length === 0) return '// Add a Start node and connect stages to generate Jenkinsfile.'
+
+  const usedNames = new Set<string>()
+  const stageName = (base: string): string => {
+    let name = base
+    for (let i = 2; usedNames.has(name); i++) name = `${base} (${i})`
+    usedNames.add(name)
+    return name
+  }
+  const indent = (lines: string[], depth: number) => lines.map(l => (l ? '  '.repeat(depth) + l : l))
+
+  const isStage = (n: PipelineNode) => n.data.kind !== 'start' && n.data.kind !== 'notify_slack'
+  // sh 스크립트 내용은 들여쓰지 않음 (heredoc 종료 구분자 보존)
+  // 아티팩트는 stash/unstash로 stage 사이에 전달 (다른 agent에서 실행되어도 유지)
+  const nodeStage = (n: PipelineNode): string[] => [
+    `stage(${groovyString(stageName(n.data.label || n.data.kind))}) {`,
+    '  steps {',
+    ...(n.data.consumes ?? []).map(name => `    unstash ${groovyString(name)}`),
+    `    sh ${groovyMultiline(nodeShellScript(n.data, false, false))}`,
+    ...producedArtifacts(n.data).map(a => `    stash(name: ${groovyString(a.name)}, includes: ${groovyString(antIncludes(a.paths))})`),
+    '  }',
+    '}'
+  ]
+
+  // 실패 시/항상 경로의 job (후속 job 포함)은 stage 대신 `post { failure {} / always {} }`에서 실행
+  const postOf = new Map<string, 'failure' | 'always'>()
+  waves.flat().forEach(job => {
+    const own = job.conditions.map(c => c.condition).find((c): c is 'failure' | 'always' => c === 'failure' || c === 'always')
+    const when = own ?? job.needs.map(need => postOf.get(need)).find(Boolean)
+    if (when) postOf.set(job.id, when)
+  })
+  const slackSend = (n: PipelineNode) =>
+    `slackSend(channel: ${groovyString(n.data.channel || '')}, message: ${groovyString(n.data.message || '')})`
+  const postSteps = (when: 'failure' | 'always') => waves.flat().filter(job => postOf.get(job.id) === when)
+    .flatMap(job => job.nodes)
+    .map(n => (n.data.kind === 'notify_slack' ? slackSend(n) : `sh ${groovyMultiline(nodeShellScript(n.data, false, false))}`))
+
+  const stages: string[] = []
+  waves.forEach((wave, index) => {
+    const branches = wave.filter(job => !postOf.has(job.id))
+      .map(job => ({ job, nodes: job.nodes.filter(isStage) })).filter(b => b.nodes.length > 0)
+    if (branches.length === 1) {
+      branches[0].nodes.forEach(n => stages.push(...nodeStage(n)))
+    } else if (branches.length > 1) {
+      const parallel = branches.flatMap(({ job, nodes: jobNodes }) => (jobNodes.length === 1
+        ? nodeStage(jobNodes[0])
+        : [`stage(${groovyString(stageName(job.id))}) {`, '  stages {', ...indent(jobNodes.flatMap(nodeStage), 2), '  }', '}']))
+      stages.push(`stage(${groovyString(stageName(`Parallel ${index + 1}`))}) {`, '  parallel {', ...indent(parallel, 2), '  }', '}')
+    }
+  })
+
+  const notifications = waves.flat().filter(job => !postOf.has(job.id)).flatMap(job => job.nodes)
+    .filter(n => n.data.kind === 'notify_slack').map(slackSend)
+  const post = ([['success', notifications], ['failure', postSteps('failure')], ['always', postSteps('always')]] as const)
+    .filter(([, steps]) => steps.length > 0)
+    .flatMap(([when, steps]) => [`    ${when} {`, ...indent(steps, 3), '    }'])
+
+  const lines = [
+    '// Generated Jenkins Pipeline',
+    'pipeline {',
+    '  agent any',
+    '  stages {',
+    ...indent(stages, 2),
+    '  }'
+  ]
+  if (post.length > 0) lines.push('  post {', ...post, '  }')
+  lines.push('}')
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * 워크플로 step에서 읽어낸 속성
+ */
+interface ParsedStep {
+  name?: string
+  id?: string
+  uses?: string
+  run?: string
+  shell?: string
+  if?: string
+  continueOnError?: boolean
+  workingDirectory?: string
+  with: Record<string, string>
+  env: Record<string, string>
+}
+
+/**
+ * 워크플로 job: id, 선행 job 목록, step 목록
+ */
+interface ParsedJob {
+  id: string
+  needs: string[]
+  steps: ParsedStep[]
+  /** job `if:`가 `failure()`/`always()`이면 선행 job에서 들어오는 엣지 조건 */
+  condition?: EdgeCondition
+}
+
+/** 스칼라 노드의 문자열 값 (스칼라가 아니면 undefined) */
+const scalarValue = (node: YAMLNode | null | undefined): string | undefined =>
+  node && node.kind === Kind.SCALAR ? (node as YAMLScalar).value : undefined
+
+/** 매핑 노드의 (키, 값) 목록. 키가 스칼라가 아닌 항목은 무시 */
+const mapEntries = (node: YAMLNode | null | undefined): [string, YAMLNode][] => {
+  if (!node || node.kind !== Kind.MAP) return []
+  return (node as YamlMap).mappings
+    .filter(m => m.key && m.key.kind === Kind.SCALAR && m.value)
+    .map(m => [(m.key as YAMLScalar).value, m.value])
+}
+
+/** 스칼라 값만 모은 문자열 맵 (`with:`, `env:` 등) */
+const stringMap = (node: YAMLNode | null | undefined): Record<string, string> => {
+  const result: Record<string, string> = {}
+  mapEntries(node).forEach(([key, value]) => {
+    const v = scalarValue(value)
+    if (v !== undefined) result[key] = v
+  })
+  return result
+}
+
+/** 스칼라 또는 스칼라 시퀀스 → 문자열 목록 (`needs: a` / `needs: [a, b]`) */
+const stringList = (node: YAMLNode | null | undefined): string[] => {
+  const single = scalarValue(node)
+  if (single !== undefined) return [single]
+  if (!node || node.kind !== Kind.SEQ) return []
+  return (node as YAMLSequence).items.map(scalarValue).filter((v): v is string => v !== undefined)
+}
+
+/** `${{ expr }}` 감싸기를 벗긴 조건식 */
+const unwrapExpression = (expr: string): string => expr.trim().replace(/^\$\{\{\s*([\s\S]*?)\s*\}\}$/, '$1')
+
+/**
+ * AST에서 모든 job을 읽어 needs 기준 위상 순서로 반환
+ * - job 수준 `if:`/`env:`는 각 step에 합쳐서 보존
+ * - 순환하거나 존재하지 않는 job을 가리키는 needs는 무시하고 원래 순서대로 뒤에 붙임
+ */
+function findJobsInAST(ast: YAMLNode | null | undefined): ParsedJob[] {
+  const jobsNode = mapEntries(ast).find(([key]) => key === 'jobs')?.[1]
+  const jobs: ParsedJob[] = mapEntries(jobsNode).map(([id, jobNode]) => {
+    const entries = new Map(mapEntries(jobNode))
+    const rawIf = scalarValue(entries.get('if'))
+    // 상태 함수 하나뿐인 조건은 엣지 조건으로 옮기고 step에는 합치지 않음
+    const condition = ({ 'failure()': 'failure', 'always()': 'always' } as Record<string, EdgeCondition | undefined>)[unwrapExpression(rawIf ?? '')]
+    const jobIf = condition ? undefined : rawIf
+    const jobEnv = stringMap(entries.get('env'))
+    const stepsNode = entries.get('steps')
+    const steps = stepsNode && stepsNode.kind === Kind.SEQ
+      ? (stepsNode as YAMLSequence).items.filter(item => item && item.kind === Kind.MAP).map(item => {
+        const step = parseStepFromAST(item as YamlMap)
+        step.env = { ...jobEnv, ...step.env }
+        if (jobIf) step.if = step.if ? `(${unwrapExpression(jobIf)}) && (${unwrapExpression(step.if)})` : jobIf
+        return step
+      })
+      : []
+    return { id, needs: stringList(entries.get('needs')), steps, condition }
+  })
+  const ids = new Set(jobs.map(j => j.id))
+  const ordered: ParsedJob[] = []
+  const done = new Set<string>()
+  let progressed = true
+  while (progressed) {
+    progressed = false
+    jobs.forEach(job => {
+      if (done.has(job.id)) return
+      if (job.needs.every(need => !ids.has(need) || done.has(need))) {
+        ordered.push(job)
+        done.add(job.id)
+        progressed = true
+      }
+    })
+  }
+  return [...ordered, ...jobs.filter(job => !done.has(job.id))]
+}
+
+/**
+ * 워크플로 `on:` → 트리거
+ * - `on: push`, `on: [push, pull_request]`, 매핑 형식 모두 지원
+ * - 편집기에서 다루지 않는 이벤트(release 등)는 무시
+ */
+function parseTriggersFromAST(onNode: YAMLNode | null | undefined): PipelineTriggers {
+  const events = onNode && onNode.kind === Kind.MAP
+    ? new Map(mapEntries(onNode))
+    : new Map<string, YAMLNode | undefined>(stringList(onNode).map(event => [event, undefined]))
+  const filters = (node: YAMLNode | undefined, keys: string[]) => {
+    const entries = new Map(mapEntries(node))
+    return Object.fromEntries(keys.map(key => [key, stringList(entries.get(key))]).filter(([, v]) => v.length > 0))
+  }
+  const triggers: PipelineTriggers = {}
+  if (events.has('push')) triggers.push = filters(events.get('push'), ['branches', 'tags', 'paths'])
+  if (events.has('pull_request')) triggers.pullRequest = filters(events.get('pull_request'), ['branches', 'paths'])
+
+  const scheduleNode = events.get('schedule')
+  if (scheduleNode && scheduleNode.kind === Kind.SEQ) {
+    triggers.schedule = (scheduleNode as YAMLSequence).items
+      .map(item => scalarValue(new Map(mapEntries(item)).get('cron')))
+      .filter((cron): cron is string => !!cron)
+  }
+
+  if (events.has('workflow_dispatch')) {
+    const inputsNode = new Map(mapEntries(events.get('workflow_dispatch'))).get('inputs')
+    const inputs = mapEntries(inputsNode).map(([name, spec]): DispatchInput => {
+      const props = new Map(mapEntries(spec))
+      const type = scalarValue(props.get('type')) as DispatchInput['type'] | undefined
+      return {
+        name,
+        type: type && DISPATCH_INPUT_TYPES.includes(type) ? type : 'string',
+        description: scalarValue(props.get('description')),
+        required: scalarValue(props.get('required')) === 'true' || undefined,
+        default: scalarValue(props.get('default')),
+        options: props.has('options') ? stringList(props.get('options')) : undefined
+      }
+    })
+    triggers.dispatch = { inputs }
+  }
+
+  const ignored = [...events.keys()].filter(event => !['push', 'pull_request', 'schedule', 'workflow_dispatch'].includes(event))
+  if (ignored.length > 0) console.log('지원하지 않는 트리거 무시:', ignored.join(', '))
+  return triggers
+}
+
+/**
+ * AST에서 step 데이터를 추출하는 함수
+ * - 스칼라 속성과 `with:`, `env:` 맵을 모두 보존 (`run:` 블록 스칼라는 여러 줄 그대로)
+ */
+function parseStepFromAST(stepMap: YamlMap): ParsedStep {
+  const step: ParsedStep = { with: {}, env: {} }
+  mapEntries(stepMap).forEach(([key, value]) => {
+    switch (key) {
+      case 'with':
+        step.with = stringMap(value)
+        break
+      case 'env':
+        step.env = stringMap(value)
+        break
+      case 'continue-on-error':
+        step.continueOnError = scalarValue(value) === 'true'
+        break
+      case 'working-directory':
+        step.workingDirectory = scalarValue(value)
+        break
+      case 'name':
+      case 'id':
+      case 'uses':
+      case 'run':
+      case 'shell':
+      case 'if':
+        step[key] = scalarValue(value)
+        break
+    }
+  })
+  return step
+}
+
+/**
+ * 그래프로 가져올 수 있는 step 수 (모든 job의 step 합계). 0이면 parseYAMLToGraph는 빈 그래프를 반환
+ */
+export const countYAMLSteps = (ast: YAMLNode | null | undefined): number =>
+  findJobsInAST(ast).reduce((sum, job) => sum + job.steps.length, 0)
+
+// 가져올 때 보존하는 키. 그 외 키는 unsupportedYAMLKeys로 보고
+const IMPORTED_WORKFLOW_KEYS = new Set(['name', 'on', 'jobs', 'env'])
+const IMPORTED_JOB_KEYS = new Set(['steps', 'needs', 'if', 'env', 'runs-on'])
+const IMPORTED_STEP_KEYS = new Set(['name', 'id', 'uses', 'with', 'run', 'shell', 'if', 'env', 'continue-on-error', 'working-directory'])
+
+/**
+ * 그래프로 가져올 때 버려지는 워크플로 키 (경로와 원문 위치)
+ * - 편집기에서 경고로 표시. `runs-on`은 생성 시 기본값(ubuntu-latest)이 아니면 보고
+ */
+export function unsupportedYAMLKeys(ast: YAMLNode | null | undefined): { path: string, position: number }[] {
+  const result: { path: string, position: number }[] = []
+  const check = (node: YAMLNode | null | undefined, supported: Set<string>, path: string) => {
+    if (!node || node.kind !== Kind.MAP) return
+    const mappings = (node as YamlMap).mappings
+    mappings.forEach(m => {
+      const key = m.key && m.key.kind === Kind.SCALAR ? (m.key as YAMLScalar).value : undefined
+      if (key === undefined) return
+      const ignored = !supported.has(key) || (key === 'runs-on' && scalarValue(m.value) !== 'ubuntu-latest')
+      if (ignored) result.push({ path: path ? `${path}.${key}` : key, position: m.startPosition })
+    })
+  }
+  check(ast, IMPORTED_WORKFLOW_KEYS, '')
+  mapEntries(mapEntries(ast).find(([key]) => key === 'jobs')?.[1]).forEach(([id, job]) => {
+    check(job, IMPORTED_JOB_KEYS, `jobs.${id}`)
+    const steps = mapEntries(job).find(([key]) => key === 'steps')?.[1]
+    if (steps && steps.kind === Kind.SEQ) {
+      (steps as YAMLSequence).items.forEach((step, i) => check(step, IMPORTED_STEP_KEYS, `jobs.${id}.steps[${i}]`))
+    }
+  })
+  return result
 }
 
 /**
  * YAML 문자열을 AST로 파싱하여 노드와 엣지로 변환
+ * - 모든 job의 step을 노드로 만들고 job 내부는 순서대로, job 사이는 `needs:`에 따라 연결
+ * - 선행 job이 없는 job은 Start 노드에 연결
+ * - 워크플로 트리거(`on:`)는 Start 노드에 저장, job id는 각 노드의 `job`에, step id는 노드 id로 보존
+ * - 워크플로 `name:`과 `env:`(시크릿 참조 포함)는 settings로 반환 (파이프라인 설정에 반영)
  */
-export function parseYAMLToGraph(yamlContent: string): { nodes: Node<PipelineNodeData>[], edges: Edge[] } {
+export function parseYAMLToGraph(yamlContent: string): { nodes: Node<PipelineNodeData>[], edges: Edge[], settings?: Partial<PipelineSettings> } {
   try {
     console.log('=== YAML 파싱 시작 ===')
-    console.log('입력 YAML:', yamlContent)
-    
-    // yaml-ast-parser를 사용하여 YAML을 AST로 파싱
     const ast = load(yamlContent)
-    console.log('생성된 AST:', ast)
-    
-    const nodes: Node<PipelineNodeData>[] = []
+    const jobs = findJobsInAST(ast)
+    console.log('찾은 jobs:', jobs.map(j => `${j.id}(${j.steps.length})`).join(', '))
+    if (jobs.every(job => job.steps.length === 0)) {
+      console.warn('step이 있는 job을 찾을 수 없음')
+      return { nodes: [], edges: [] }
+    }
+
+    // `on:`은 Start 노드의 트리거로 보존
+    const workflow = new Map(mapEntries(ast))
+    const onNode = workflow.get('on')
+    const nodes: Node<PipelineNodeData>[] = [
+      {
+        id: 'start',
+        position: { x: 100, y: 0 },
+        data: { kind: 'start', label: 'Start', triggers: onNode ? parseTriggersFromAST(onNode) : undefined },
+        type: PIPELINE_NODE_TYPE
+      }
+    ]
     const edges: Edge[] = []
-    
-    // AST에서 steps 섹션 찾기
-    const steps = findStepsInAST(ast)
-    console.log('찾은 steps 섹션:', steps)
-    
-    if (steps && steps.kind === Kind.SEQ) {
-      const stepsSequence = steps as YAMLSequence
-      console.log(`steps 시퀀스 발견: ${stepsSequence.items.length}개 항목`)
-      
-      stepsSequence.items.forEach((step, index) => {
-        console.log(`Step 처리 중:`, step)
-        
-        if (step.kind === Kind.MAP) {
-          const stepMap = step as YamlMap
-          const stepData = parseStepFromAST(stepMap)
-          
-          if (stepData) {
-            console.log(`Step ${index} 파싱 완료:`, stepData)
-            
-            const nodeData = createNodeDataFromGitHubAction(stepData)
-            if (nodeData) {
-              console.log(`Step ${index} 노드 데이터 생성:`, nodeData)
-              
-              const node: Node<PipelineNodeData> = {
-                id: `step-${index}`,
-                position: { x: 100, y: 100 + index * 150 },
-                data: nodeData,
-                type: 'default'
-              }
-              nodes.push(node)
-              
-              // 이전 노드와 연결
-              if (index > 0) {
-                const edge: Edge = {
-                  id: `edge-${index - 1}`,
-                  source: nodes[index - 1].id,
-                  target: node.id,
-                  type: 'smoothstep',
-                  animated: true,
-                  markerEnd: { 
-                    type: MarkerType.ArrowClosed,
-                    width: 20,
-                    height: 20
-                  },
-                  label: `${index}`,
-                  labelStyle: {
-                    fill: '#fff',
-                    fontWeight: 600,
-                    fontSize: '12px'
-                  },
-                  labelBgStyle: {
-                    fill: '#1a192b',
-                    fillOpacity: 0.8
-                  },
-                  labelBgPadding: [4, 4],
-                  labelBgBorderRadius: 4
-                }
-                edges.push(edge)
-              }
-            } else {
-              console.warn(`Step ${index}에서 노드 데이터 생성 실패`)
-            }
-          } else {
-            console.warn(`Step ${index} 파싱 실패`)
-          }
-        } else {
-          console.warn(`Step ${index}가 MAP이 아님:`, step.kind)
-        }
+    const connect = (source: string, target: string, condition?: EdgeCondition) => {
+      edges.push({
+        id: `edge-${source}-${target}`,
+        source,
+        target,
+        type: 'smoothstep',
+        animated: true,
+        markerEnd: { type: MarkerType.ArrowClosed, width: 20, height: 20 },
+        data: condition && { condition }
       })
-    } else {
-      console.warn('steps 섹션을 찾을 수 없거나 시퀀스가 아님:', steps)
     }
-    
-    console.log('=== 최종 결과 ===')
-    console.log('생성된 노드:', nodes)
-    console.log('생성된 엣지:', edges)
-    
-    return { nodes, edges }
+
+    // job별 마지막 노드 (후속 job의 연결 지점). step이 없는 job은 선행 job의 마지막 노드를 대신 사용
+    const exits = new Map<string, string[]>()
+    const used = new Set(nodes.map(n => n.id))
+    const stepIds = new Set(jobs.flatMap(job => job.steps.map(step => step.id)))
+    jobs.forEach((job, jobIndex) => {
+      const entries = [...new Set(job.needs.flatMap(need => exits.get(need) ?? []))]
+      const sources = entries.length > 0 ? entries : ['start']
+      if (job.steps.length === 0) {
+        exits.set(job.id, sources)
+        return
+      }
+
+      let previous: string[] = sources
+      job.steps.forEach((step, index) => {
+        // step id는 노드 id로 사용해 다시 생성할 때 유지 (`steps.<id>.outputs` 참조 보존)
+        let id = step.id && !used.has(step.id) ? step.id : `${job.id}-step-${index}`
+        for (let i = 2; used.has(id) || (id !== step.id && stepIds.has(id)); i++) id = `${job.id}-step-${index}_${i}`
+        used.add(id)
+        const node: Node<PipelineNodeData> = {
+          id,
+          position: { x: 100 + jobIndex * 250, y: 150 + index * 150 },
+          data: { ...createNodeDataFromGitHubAction(step), job: job.id },
+          type: PIPELINE_NODE_TYPE
+        }
+        nodes.push(node)
+        previous.forEach(source => connect(source, node.id, index === 0 ? job.condition : undefined))
+        previous = [node.id]
+      })
+      exits.set(job.id, previous)
+    })
+
+    const settings: Partial<PipelineSettings> = {}
+    const name = scalarValue(workflow.get('name'))
+    if (name) settings.name = name
+    // 워크플로 전체를 교체하므로 `env:`가 없으면 변수/시크릿도 비움
+    // `NAME: ${{ secrets.NAME }}`는 생성 시 시크릿 설정에서 만들어지므로 시크릿으로 되돌림
+    const env = Object.entries(stringMap(workflow.get('env')))
+    const isSecret = ([key, value]: [string, string]) => value === secretEnv([key])[key]
+    settings.env = Object.fromEntries(env.filter(entry => !isSecret(entry)))
+    settings.secrets = env.filter(isSecret).map(([key]) => key)
+
+    console.log('=== 최종 결과 ===', `노드 ${nodes.length}개, 엣지 ${edges.length}개`)
+    return { nodes, edges, settings }
   } catch (error) {
     console.error('YAML AST 파싱 오류:', error)
     console.error('오류 스택:', error instanceof Error ? error.stack : '알 수 없는 오류')
@@ -328,46 +1510,20 @@ export function parseYAMLToGraph(yamlContent: string): { nodes: Node<PipelineNod
 
 /**
  * YAML 문자열을 직접 파싱하여 Shell 코드 생성
- * - parseYAMLToGraph와 유사하지만 Shell 코드만 반환
+ * - parseYAMLToGraph와 유사하지만 Shell 코드만 반환. job은 needs 순서로 나열
  */
 export function generateShellFromYAML(yamlContent: string): string {
   try {
     console.log('=== YAML에서 Shell 생성 시작 ===')
-    
-    // yaml-ast-parser를 사용하여 YAML을 AST로 파싱
-    const ast = load(yamlContent)
-    
-    // AST에서 steps 섹션 찾기
-    const steps = findStepsInAST(ast)
-    
-    if (steps && steps.kind === Kind.SEQ) {
-      const stepsSequence = steps as YAMLSequence
-      console.log(`Shell 생성: ${stepsSequence.items.length}개 step 발견`)
-      
-      // 각 step을 Shell 명령어로 변환
-      const shellCommands: string[] = []
-      
-      stepsSequence.items.forEach((step) => {
-        if (step.kind === Kind.MAP) {
-          const stepMap = step as YamlMap
-          const stepData = parseStepFromAST(stepMap)
-          
-          if (stepData) {
-            const shellCommand = convertStepToShell(stepData)
-            if (shellCommand) {
-              shellCommands.push(shellCommand)
-            }
-          }
-        }
-      })
-      
-      if (shellCommands.length > 0) {
-        const result = shellCommands.join('\n\n')
-        console.log('=== Shell 생성 완료 ===')
-        return result
-      }
+    const jobs = findJobsInAST(load(yamlContent))
+    const shellCommands = jobs.flatMap(job => job.steps.map((step, index) =>
+      (index === 0 && job.condition ? `# job if: ${job.condition}()\n` : '') + convertStepToShell(step)))
+
+    if (shellCommands.length > 0) {
+      console.log('=== Shell 생성 완료 ===')
+      return shellCommands.join('\n\n')
     }
-    
+
     return '# YAML에서 Shell을 생성할 수 없습니다.'
   } catch (error) {
     console.error('YAML에서 Shell 생성 중 오류:', error)
@@ -377,242 +1533,107 @@ export function generateShellFromYAML(yamlContent: string): string {
 
 /**
  * GitHub Actions step을 Shell 명령어로 변환
+ * - `env:`는 export로, `if:`는 주석으로 남김
+ * - `working-directory:`가 있으면 run 명령을 그 디렉터리의 서브셸에서 실행
  */
-function convertStepToShell(stepData: Record<string, string>): string | null {
-  const { name, uses, run, shell } = stepData
-  
+function convertStepToShell(step: ParsedStep): string {
+  const { uses, run, shell } = step
+  const name = step.name || uses || run?.split('\n')[0] || 'step'
+  const title = shellComment(name)
+  const prelude = (step.if ? `# if: ${shellComment(step.if)}\n` : '') +
+    Object.entries(step.env).map(([key, value]) => envExport(key, value)).join('')
+
   // uses 기반 step 처리
   if (uses) {
     if (uses.includes('checkout')) {
-      return `# ${name}\necho "📥 Checking out code..."\ngit clone ${stepData.repoUrl || 'https://github.com/user/repo.git'} .\ngit checkout ${stepData.branch || 'main'}`
+      const repoUrl = step.with.repository ? `https://github.com/${step.with.repository}.git` : 'https://github.com/user/repo.git'
+      return `# ${title}\n${prelude}echo "📥 Checking out code..."\ngit clone -- ${shellQuote(repoUrl)} .\ngit checkout ${shellQuote(step.with.ref || 'main')}`
     } else if (uses.includes('setup-java')) {
-      return `# ${name}\necho "☕ Setting up Java..."\njava -version\nexport JAVA_HOME=/usr/lib/jvm/temurin-17-jdk\nexport PATH=$JAVA_HOME/bin:$PATH`
+      return `# ${title}\n${prelude}echo "☕ Setting up Java..."\njava -version\nexport JAVA_HOME=${shellQuote(`/usr/lib/jvm/temurin-${step.with['java-version'] || '17'}-jdk`)}\nexport PATH=$JAVA_HOME/bin:$PATH`
     } else if (uses.includes('setup-node')) {
-      return `# ${name}\necho "🟢 Setting up Node.js..."\nnode --version\nnpm --version`
+      return `# ${title}\n${prelude}echo "🟢 Setting up Node.js..."\nnode --version\nnpm --version`
     } else if (uses.includes('setup-python')) {
-      return `# ${name}\necho "🐍 Setting up Python..."\npython3 --version\nnpm --version`
+      return `# ${title}\n${prelude}echo "🐍 Setting up Python..."\npython3 --version\npip3 --version`
     }
   }
-  
+
   // run 기반 step 처리
   if (run) {
-    return `# ${name}\necho "🚀 Executing: ${name}"\n${run}`
+    const body = step.workingDirectory ? `(\ncd -- ${shellQuote(step.workingDirectory)} || exit 1\n${run.replace(/\n$/, '')}\n)` : run
+    return `# ${title}\n${prelude}echo ${shellQuote(`🚀 Executing: ${title}`)}\n${body}`
   }
-  
+
   // shell 기반 step 처리
   if (shell) {
-    return `# ${name}\necho "💻 Executing with ${shell}..."\n# ${name} 실행`
+    return `# ${title}\n${prelude}echo ${shellQuote(`💻 Executing with ${shellComment(shell)}...`)}\n# ${title} 실행`
   }
-  
-  // 기본 fallback
-  return `# ${name}\necho "⚡ Executing step: ${name}"\n# ${name} 단계 실행`
-}
 
-/**
- * AST에서 steps 섹션을 찾는 함수
- */
-function findStepsInAST(ast: YAMLNode): YAMLNode | null {
-  console.log('findStepsInAST 시작, AST 종류:', ast.kind)
-  
-  if (ast.kind === Kind.MAP) {
-    const astMap = ast as YamlMap
-    console.log('AST가 MAP임, mappings 개수:', astMap.mappings.length)
-    
-    for (const mapping of astMap.mappings) {
-      if (mapping.key.kind === Kind.SCALAR) {
-        const key = (mapping.key as YAMLScalar).value
-        console.log('매핑 키 발견:', key)
-        
-        if (key === 'jobs') {
-          console.log('jobs 섹션 발견')
-          // jobs 섹션에서 pipeline 찾기
-          if (mapping.value.kind === Kind.MAP) {
-            const jobsMap = mapping.value as YamlMap
-            console.log('jobs가 MAP임, mappings 개수:', jobsMap.mappings.length)
-            
-            for (const jobMapping of jobsMap.mappings) {
-              if (jobMapping.key.kind === Kind.SCALAR) {
-                const jobKey = (jobMapping.key as YAMLScalar).value
-                console.log('job 키 발견:', jobKey)
-                
-                if (jobKey === 'pipeline') {
-                  console.log('pipeline 섹션 발견')
-                  // pipeline 섹션에서 steps 찾기
-                  if (jobMapping.value.kind === Kind.MAP) {
-                    const pipelineMap = jobMapping.value as YamlMap
-                    console.log('pipeline이 MAP임, mappings 개수:', pipelineMap.mappings.length)
-                    
-                    for (const pipelineMapping of pipelineMap.mappings) {
-                      if (pipelineMapping.key.kind === Kind.SCALAR) {
-                        const pipelineKey = (pipelineMapping.key as YAMLScalar).value
-                        console.log('pipeline 키 발견:', pipelineKey)
-                        
-                        if (pipelineKey === 'steps') {
-                          console.log('steps 섹션 발견!')
-                          return pipelineMapping.value
-                        }
-                      }
-                    }
-                  } else {
-                    console.log('pipeline이 MAP이 아님:', jobMapping.value.kind)
-                  }
-                }
-              } else {
-                console.log('job 키가 SCALAR가 아님:', jobMapping.key.kind)
-              }
-            }
-          } else {
-            console.log('jobs가 MAP이 아님:', mapping.value.kind)
-          }
-        }
-      } else {
-        console.log('매핑 키가 SCALAR가 아님:', mapping.key.kind)
-      }
-    }
-  } else {
-    console.log('AST가 MAP이 아님:', ast.kind)
-  }
-  
-  console.log('steps 섹션을 찾을 수 없음')
-  return null
+  // 기본 fallback
+  return `# ${title}\n${prelude}echo ${shellQuote(`⚡ Executing step: ${title}`)}\n# ${title} 단계 실행`
 }
 
-/**
- * AST에서 step 데이터를 추출하는 함수
- */
-function parseStepFromAST(stepMap: YamlMap): Record<string, string> | null {
-  console.log('parseStepFromAST 시작, stepMap mappings 개수:', stepMap.mappings.length)
-  
-  const stepData: Record<string, string> = {}
-  
-  // 모든 매핑을 먼저 확인
-  const allMappings = stepMap.mappings.map(m => ({
-    key: m.key.kind === Kind.SCALAR ? (m.key as YAMLScalar).value : `[${m.key.kind}]`,
-    valueKind: m.value.kind,
-    value: m.value.kind === Kind.SCALAR ? (m.value as YAMLScalar).value : `[${m.value.kind}]`
-  }))
-  console.log('Step의 모든 매핑들:', allMappings)
-  
-  for (const mapping of stepMap.mappings) {
-    console.log('매핑 처리 중:', mapping.key.kind, mapping.value.kind)
-    
-    if (mapping.key.kind === Kind.SCALAR && mapping.value.kind === Kind.SCALAR) {
-      const key = (mapping.key as YAMLScalar).value
-      const value = (mapping.value as YAMLScalar).value
-      
-      console.log('스칼라 키-값 쌍 발견:', key, '=', value)
-      stepData[key] = value
-    } else if (mapping.key.kind === Kind.SCALAR && mapping.value.kind === Kind.MAP) {
-      // with 섹션과 같은 중첩된 맵 처리
-      const key = (mapping.key as YAMLScalar).value
-      const nestedMap = mapping.value as YamlMap
-      
-      console.log('중첩된 맵 발견:', key, 'mappings 개수:', nestedMap.mappings.length)
-      
-      if (key === 'with') {
-        // with 내부의 모든 매핑 확인
-        const withMappings = nestedMap.mappings.map(m => ({
-          key: m.key.kind === Kind.SCALAR ? (m.key as YAMLScalar).value : `[${m.key.kind}]`,
-          valueKind: m.value.kind,
-          value: m.value.kind === Kind.SCALAR ? (m.value as YAMLScalar).value : `[${m.value.kind}]`
-        }))
-        console.log('with 내부의 모든 매핑들:', withMappings)
-        
-        for (const nestedMapping of nestedMap.mappings) {
-          if (nestedMapping.key.kind === Kind.SCALAR && nestedMapping.value.kind === Kind.SCALAR) {
-            const nestedKey = (nestedMapping.key as YAMLScalar).value
-            const nestedValue = (nestedMapping.value as YAMLScalar).value
-            
-            console.log('with 내부 키-값 쌍 발견:', nestedKey, '=', nestedValue)
-            stepData[nestedKey] = nestedValue
-          }
-        }
-      }
-    }
-  }
-  
-  console.log('최종 stepData:', stepData)
-  console.log('stepData 키들:', Object.keys(stepData))
-  return Object.keys(stepData).length > 0 ? stepData : null
+// prebuild 노드가 생성하는 설치 명령 → 노드 종류와 패키지 매니저
+const PYTHON_SETUP = ['python3 -m venv .venv', '. .venv/bin/activate', 'pip install -r requirements.txt']
+const SETUP_COMMANDS: Record<string, Pick<PipelineNodeData, 'kind' | 'manager'>> = {
+  'npm ci': { kind: 'prebuild_node', manager: 'npm' },
+  'npm ci || npm install': { kind: 'prebuild_node', manager: 'npm' },
+  'yarn install --frozen-lockfile || yarn install': { kind: 'prebuild_node', manager: 'yarn' },
+  'pnpm install --frozen-lockfile || pnpm install': { kind: 'prebuild_node', manager: 'pnpm' },
+  [PYTHON_SETUP.join('\n')]: { kind: 'prebuild_python' },
+  [PYTHON_SETUP.map(cmd => `${cmd} || true`).join('\n')]: { kind: 'prebuild_python' }
 }
 
 /**
  * GitHub Actions step을 노드 데이터로 변환
+ * - `uses:` step은 대응하는 노드 종류로 매핑하고 액션 이름/`with:`를 그대로 보존
+ * - `run:`은 prebuild 노드가 생성하는 설치 명령과 같으면 해당 노드 종류로, 그 외는 Prebuild Custom 스크립트로 보존
  */
-function createNodeDataFromGitHubAction(step: Record<string, string>): PipelineNodeData | null {
-  const name = step.name || 'Unknown Step'
+function createNodeDataFromGitHubAction(step: ParsedStep): PipelineNodeData {
   const uses = step.uses || ''
+  const run = step.run || ''
+  const label = step.name || uses || run.split('\n')[0] || 'Unknown Step'
+  const data: PipelineNodeData = { kind: 'prebuild_custom', label }
 
-  let kind: PipelineNodeData['kind'] = 'prebuild_custom'
-  const label = name
-  const additionalData: Record<string, string> = {}
-
-  if (uses.includes('actions/setup-node')) {
-    kind = 'prebuild_node'
-    additionalData.manager = 'npm'
-  } else if (uses.includes('actions/setup-python')) {
-    kind = 'prebuild_python'
-    additionalData.lang = 'python'
-  } else if (uses.includes('actions/setup-java')) {
-    kind = 'prebuild_java'
-    additionalData.lang = 'java'
-    if (step['java-version']) {
-      additionalData.javaVersion = step['java-version']
-    }
-    if (step.distribution) {
-      additionalData.distribution = step.distribution
-    }
-  } else if (uses.includes('actions/checkout')) {
-    kind = 'git_clone'
-    additionalData.repoUrl = 'https://github.com/user/repo.git'
-    additionalData.branch = 'main'
-  } else if (uses.includes('actions/setup-apt') || uses.includes('actions/setup-yum') || uses.includes('actions/setup-apk')) {
-    kind = 'linux_install'
-    additionalData.osPkg = 'apt'
-    if (step.packages) {
-      additionalData.packages = step.packages
-    }
-  } else if (uses.includes('actions/setup-npm') || uses.includes('actions/setup-yarn') || uses.includes('actions/setup-pnpm')) {
-    kind = 'prebuild_node'
-    additionalData.manager = 'npm'
-  } else if (uses.includes('actions/setup-pip')) {
-    kind = 'prebuild_python'
-    additionalData.lang = 'python'
-  } else if (uses.includes('actions/setup-maven') || uses.includes('actions/setup-gradle')) {
-    kind = 'prebuild_java'
-    additionalData.lang = 'java'
-  } else if (uses.includes('actions/setup-custom')) {
-    kind = 'prebuild_custom'
-    if (step.script) {
-      additionalData.script = step.script
-    }
-  }
-
-  // shell과 run 속성도 확인
-  if (step.shell) {
-    if (step.shell.includes('bash')) {
-      kind = 'run_tests'
-      additionalData.testType = 'unit'
-      additionalData.command = step.shell
+  if (uses) {
+    data.uses = uses
+    if (Object.keys(step.with).length > 0) data.with = step.with
+    if (uses.includes('actions/setup-node') || uses.includes('actions/setup-npm') || uses.includes('actions/setup-yarn') || uses.includes('actions/setup-pnpm')) {
+      data.kind = 'prebuild_node'
+      data.manager = 'npm'
+    } else if (uses.includes('actions/setup-python') || uses.includes('actions/setup-pip')) {
+      data.kind = 'prebuild_python'
+      data.lang = 'python'
+    } else if (uses.includes('actions/setup-java') || uses.includes('actions/setup-maven') || uses.includes('actions/setup-gradle')) {
+      data.kind = 'prebuild_java'
+      data.lang = 'java'
+    } else if (uses.includes('actions/checkout')) {
+      data.kind = 'git_clone'
+      data.repoUrl = step.with.repository ? `https://github.com/${step.with.repository}.git` : 'https://github.com/user/repo.git'
+      data.branch = step.with.ref || 'main'
+    } else if (uses.includes('actions/setup-apt') || uses.includes('actions/setup-yum') || uses.includes('actions/setup-apk')) {
+      data.kind = 'linux_install'
+      data.osPkg = 'apt'
+      if (step.with.packages) data.packages = step.with.packages
+    } else if (uses.includes('actions/setup-custom') && step.with.script) {
+      data.script = step.with.script
     }
-  }
-
-  if (step.run) {
-    if (step.run.includes('npm ci') || step.run.includes('npm install')) {
-      kind = 'prebuild_node'
-      additionalData.manager = 'npm'
-    } else if (step.run.includes('mvn') || step.run.includes('gradle')) {
-      kind = 'build_java'
-    } else if (step.run.includes('pip install')) {
-      kind = 'prebuild_python'
+  } else if (run) {
+    // 주석/공백 줄을 제외하고 비교 (옵션이 붙은 `npm ci --omit=dev` 등은 스크립트로 남음)
+    const command = run.split('\n').map(line => line.trim()).filter(line => line && !line.startsWith('#')).join('\n')
+    const setup = SETUP_COMMANDS[command]
+    if (setup) {
+      Object.assign(data, setup)
+    } else {
+      // Prebuild Custom 노드가 붙이는 머리 주석은 다시 생성되므로 제외
+      data.script = run.replace(/^# Prebuild custom\n/, '')
     }
   }
 
-  return {
-    kind,
-    label,
-    ...additionalData
-  }
+  if (step.if) data.condition = step.if
+  if (Object.keys(step.env).length > 0) data.env = step.env
+  if (step.continueOnError) data.continueOnError = true
+  if (step.workingDirectory && !uses) data.workingDirectory = step.workingDirectory
+  return data
 }
 
 /**
@@ -674,7 +1695,7 @@ export function parseShellToGraph(shellContent: string): { nodes: Node<PipelineN
           id: `shell-step-${nodeIndex}`,
           position: { x: 100, y: 100 + nodeIndex * 150 },
           data: nodeData,
-          type: 'default'
+          type: PIPELINE_NODE_TYPE
         }
         
         nodes.push(node)
@@ -728,7 +1749,7 @@ export function generateYAMLFromShell(shellContent: string): string {
   try {
     console.log('=== Shell에서 YAML 생성 시작 ===')
     const lines = shellContent.split('\n').filter(line => line.trim())
-    const steps: Record<string, unknown>[] = []
+    const steps: { [key: string]: YAMLValue }[] = []
     
     lines.forEach((line) => {
       const trimmedLine = line.trim()
@@ -738,7 +1759,7 @@ export function generateYAMLFromShell(shellContent: string): string {
         const comment = trimmedLine.substring(1).trim()
         
         // 특정 패턴에 따른 step 생성
-        const step: Record<string, unknown> = { name: comment }
+        const step: { [key: string]: YAMLValue } = { name: comment }
         
         if (comment.includes('Checkout') || comment.includes('checkout')) {
           step.uses = 'actions/checkout@v3'
@@ -769,7 +1790,7 @@ export function generateYAMLFromShell(shellContent: string): string {
           step.run = `#!/bin/bash\necho "🚀 Starting pipeline..."\nchmod +x gradlew || true`
         } else {
           // 기본적으로 run으로 처리
-          step.run = `# ${comment}\necho "Executing: ${comment}"`
+          step.run = `# ${comment}\necho ${shellQuote(`Executing: ${comment}`)}`
         }
         
         steps.push(step)
@@ -789,7 +1810,7 @@ export function generateYAMLFromShell(shellContent: string): string {
       }
       
       console.log('=== Shell에서 YAML 생성 완료 ===')
-      return JSON.stringify(yaml, null, 2)
+      return toYAML(yaml)
     }
     
     return '# Shell에서 YAML을 생성할 수 없습니다.'
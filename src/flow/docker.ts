@@ -0,0 +1,243 @@
+import { shellQuote } from './quoting'
+import type { YAMLValue } from './yamlEmitter'
+
+/**
+ * Docker 이미지 빌드/배포 옵션 (docker_build 노드)
+ * - 레지스트리 로그인(자격 증명은 시크릿), push, 자동 태그(sha/branch/semver), build arg, 멀티 플랫폼, 레이어 캐시
+ * - GitHub Actions: docker/login-action, metadata-action, build-push-action step
+ * - 셸: `docker login` + `docker buildx build` (옵션이 없으면 기존 `docker build`)
+ */
+
+/**
+ * 자동 태그 규칙
+ * - sha: `sha-<커밋 7자리>`
+ * - branch: 브랜치 이름 (`/` 등은 `-`로 치환). 셸에서는 CI가 알려 주는 브랜치를 우선하고 detached HEAD면 생략
+ * - semver: `v1.2.3` 태그에서 `1.2.3`, `1.2`
+ */
+export type DockerTagRule = 'sha' | 'branch' | 'semver'
+
+export const DOCKER_TAG_RULES: DockerTagRule[] = ['sha', 'branch', 'semver']
+
+export interface DockerOptions {
+  /** 빌드 후 레지스트리에 push (로그인 포함) */
+  push?: boolean
+  /** 로그인 사용자 이름/비밀번호(토큰)를 담은 시크릿 이름 */
+  usernameSecret?: string
+  passwordSecret?: string
+  tagRules?: DockerTagRule[]
+  /** `KEY=VALUE` 또는 `KEY`(실행 환경 값 사용) */
+  buildArgs?: string[]
+  /** 대상 플랫폼 (예: linux/amd64, linux/arm64) */
+  platforms?: string[]
+  /** 빌드 레이어 캐시 (GitHub Actions 캐시 / 로컬 디렉터리) */
+  layerCache?: boolean
+}
+
+export const DEFAULT_USERNAME_SECRET = 'DOCKER_USERNAME'
+export const DEFAULT_PASSWORD_SECRET = 'DOCKER_PASSWORD'
+
+/** 빌드 대상: Dockerfile 경로와 이미지 참조 (`[registry/]name[:tag]`) */
+export interface DockerBuild {
+  dockerfile: string
+  image: string
+}
+
+/**
+ * 이미지 참조 → 이름과 태그. 마지막 `/` 뒤의 `:`만 태그로 봄 (레지스트리 포트와 구분)
+ */
+export function parseImageRef(ref: string): { name: string, tag?: string } {
+  const colon = ref.lastIndexOf(':')
+  return colon > ref.lastIndexOf('/') ? { name: ref.slice(0, colon), tag: ref.slice(colon + 1) } : { name: ref }
+}
+
+/**
+ * 이미지 이름의 레지스트리 호스트 (Docker Hub면 undefined)
+ * - 첫 경로 요소에 `.`이나 `:`이 있거나 `localhost`면 레지스트리로 봄
+ */
+export function imageRegistry(name: string): string | undefined {
+  const slash = name.indexOf('/')
+  if (slash < 0) return undefined
+  const host = name.slice(0, slash)
+  return /[.:]/.test(host) || host === 'localhost' ? host : undefined
+}
+
+/** 플랫폼 형식 (`os/arch[/variant]`) */
+export const isDockerPlatform = (platform: string): boolean => /^[a-z0-9]+\/[a-z0-9_]+(\/[a-z0-9]+)?$/.test(platform)
+
+/** build arg 형식 (`KEY=VALUE` 또는 `KEY`) */
+export const isBuildArg = (arg: string): boolean => /^[A-Za-z_][A-Za-z0-9_]*(=.*)?$/s.test(arg)
+
+/**
+ * 비어 있는 옵션을 지우고, 남은 옵션이 없으면 undefined (단순 `docker build`로 생성)
+ */
+export function normalizeDockerOptions(options: DockerOptions): DockerOptions | undefined {
+  const next: DockerOptions = {
+    push: options.push || undefined,
+    usernameSecret: options.push ? options.usernameSecret || undefined : undefined,
+    passwordSecret: options.push ? options.passwordSecret || undefined : undefined,
+    tagRules: options.tagRules?.length ? options.tagRules : undefined,
+    buildArgs: options.buildArgs?.length ? options.buildArgs : undefined,
+    platforms: options.platforms?.length ? options.platforms : undefined,
+    layerCache: options.layerCache || undefined
+  }
+  const entries = Object.entries(next).filter(([, value]) => value !== undefined)
+  return entries.length > 0 ? Object.fromEntries(entries) as DockerOptions : undefined
+}
+
+/** 로그인에 쓸 시크릿 이름 */
+export const dockerCredentials = (options: DockerOptions): { username: string, password: string } => ({
+  username: options.usernameSecret || DEFAULT_USERNAME_SECRET,
+  password: options.passwordSecret || DEFAULT_PASSWORD_SECRET
+})
+
+/** 셸에서 buildx가 필요한지 (push, 멀티 플랫폼, 레이어 캐시) */
+const needsBuildx = (options: DockerOptions): boolean =>
+  !!options.push || !!options.platforms?.length || !!options.layerCache
+
+/**
+ * 고정 태그 목록. 자동 태그가 없으면 태그를 생략한 이미지는 `latest`
+ */
+const fixedTags = (image: string, options: DockerOptions): string[] => {
+  const { tag } = parseImageRef(image)
+  if (tag) return [tag]
+  return options.tagRules?.length ? [] : ['latest']
+}
+
+/** docker/metadata-action `tags` 입력 */
+const metadataTags = (image: string, options: DockerOptions): string => [
+  ...fixedTags(image, options).map(tag => `type=raw,value=${tag}`),
+  ...(options.tagRules ?? []).flatMap(rule => {
+    if (rule === 'sha') return ['type=sha']
+    if (rule === 'branch') return ['type=ref,event=branch']
+    return ['type=semver,pattern={{version}}', 'type=semver,pattern={{major}}.{{minor}}']
+  })
+].join('\n')
+
+/**
+ * 브랜치 태그 (셸 표현, 태그에 쓸 수 없는 글자는 `-`로)
+ * - GitLab CI/Jenkins는 detached HEAD로 checkout하므로 CI가 알려 주는 브랜치 이름을 우선 사용
+ * - 어느 것도 없고 detached 상태면 `HEAD`가 되므로 push할 때는 건너뜀
+ */
+const BRANCH_TAG = "$(printf '%s' \"${CI_COMMIT_REF_NAME:-${BRANCH_NAME:-${GIT_BRANCH:-$(git rev-parse --abbrev-ref HEAD 2>/dev/null)}}}\" | sed 's#^origin/##' | tr -c 'A-Za-z0-9._\\n-' '-')"
+
+/**
+ * 배포 단계에서 참조할 이미지 (큰따옴표 안에서 확장되는 셸 표현)
+ * - 커밋마다 바뀌는 태그를 우선: sha > 고정 태그 > branch > semver
+ * - GitHub Actions에서도 checkout 후 run step에서 같은 값이 계산됨
+ */
+export function deployImageRef(image: string, options: DockerOptions = {}): string {
+  const { name, tag } = parseImageRef(image)
+  const rules = options.tagRules ?? []
+  if (rules.includes('sha')) return `${name}:sha-$(git rev-parse --short=7 HEAD)`
+  if (tag) return `${name}:${tag}`
+  if (rules.includes('branch')) return `${name}:${BRANCH_TAG}`
+  if (rules.includes('semver')) return `${name}:$(git describe --tags --exact-match | sed s/^v//)`
+  return `${name}:latest`
+}
+
+/**
+ * GitHub Actions step 목록
+ * - stepId: 같은 job 안에서 유일한 metadata step id
+ * - node: 노드의 step 속성. `if`는 모든 step에, 이름/id/`continue-on-error`/`env`는 build-push step에 적용
+ * - 작업 디렉터리가 있으면 빌드 컨텍스트와 Dockerfile 경로의 기준으로 사용
+ * - 멀티 플랫폼 이미지는 로컬 docker로 불러올 수 없으므로 push하지 않을 때만 단일 플랫폼 `load`
+ */
+export function dockerSteps(
+  { dockerfile, image }: DockerBuild,
+  options: DockerOptions,
+  stepId: string,
+  node: { name?: string, id?: string, condition?: string, continueOnError?: boolean, env?: Record<string, string>, workingDirectory?: string } = {}
+): YAMLValue[] {
+  const { name } = parseImageRef(image)
+  const registry = imageRegistry(name)
+  const { username, password } = dockerCredentials(options)
+  const platforms = options.platforms ?? []
+  const steps: YAMLValue[] = []
+  const when = node.condition
+  const context = node.workingDirectory?.replace(/\/+$/, '') || '.'
+  if (platforms.length > 0) steps.push({ name: 'Set up QEMU', if: when, uses: 'docker/setup-qemu-action@v3' })
+  steps.push({ name: 'Set up Docker Buildx', if: when, uses: 'docker/setup-buildx-action@v3' })
+  if (options.push) {
+    steps.push({
+      name: `Log in to ${registry ?? 'Docker Hub'}`,
+      if: when,
+      uses: 'docker/login-action@v3',
+      with: { registry, username: `\${{ secrets.${username} }}`, password: `\${{ secrets.${password} }}` }
+    })
+  }
+  const tagged = !!options.tagRules?.length
+  if (tagged) {
+    steps.push({ name: 'Docker metadata', id: stepId, if: when, uses: 'docker/metadata-action@v5', with: { images: name, tags: metadataTags(image, options) } })
+  }
+  steps.push({
+    name: node.name || `Build ${name}`,
+    id: node.id,
+    if: when,
+    'continue-on-error': node.continueOnError,
+    uses: 'docker/build-push-action@v5',
+    with: {
+      context,
+      file: context === '.' ? dockerfile || 'Dockerfile' : `${context}/${dockerfile || 'Dockerfile'}`,
+      platforms: platforms.length > 0 ? platforms.join(',') : undefined,
+      'build-args': options.buildArgs?.length ? options.buildArgs.join('\n') : undefined,
+      push: !!options.push,
+      load: !options.push && platforms.length <= 1 ? true : undefined,
+      tags: tagged ? `\${{ steps.${stepId}.outputs.tags }}` : fixedTags(image, options).map(tag => `${name}:${tag}`).join('\n'),
+      labels: tagged ? `\${{ steps.${stepId}.outputs.labels }}` : undefined,
+      'cache-from': options.layerCache ? 'type=gha' : undefined,
+      'cache-to': options.layerCache ? 'type=gha,mode=max' : undefined
+    },
+    env: node.env
+  })
+  return steps
+}
+
+/**
+ * 셸 명령
+ * - 태그는 `DOCKER_TAGS`에 `-t` 인자로 모아 두고 나눠 쓰기(word splitting)로 전달 (POSIX sh 호환)
+ * - buildx가 필요하면 docker-container 드라이버 빌더를 만들어 사용 (멀티 플랫폼, 캐시 내보내기 지원)
+ * - 레이어 캐시는 `PIPELINE_CACHE_DIR` 아래 이미지별 디렉터리
+ */
+export function dockerShell({ dockerfile, image }: DockerBuild, options: DockerOptions): string {
+  const { name } = parseImageRef(image)
+  const lines = [`# Docker build: ${name.replace(/[\r\n]+/g, ' ')}`, `DOCKER_IMAGE=${shellQuote(name)}`]
+  lines.push(`DOCKER_TAGS="${fixedTags(image, options).map(tag => `-t $DOCKER_IMAGE:${tag}`).join(' ')}"`)
+  const rules = options.tagRules ?? []
+  if (rules.includes('sha')) {
+    lines.push('DOCKER_TAGS="$DOCKER_TAGS -t $DOCKER_IMAGE:sha-$(git rev-parse --short=7 HEAD)"')
+  }
+  if (rules.includes('branch')) {
+    lines.push(
+      `DOCKER_BRANCH=${BRANCH_TAG}`,
+      'if [ -n "$DOCKER_BRANCH" ] && [ "$DOCKER_BRANCH" != HEAD ]; then DOCKER_TAGS="$DOCKER_TAGS -t $DOCKER_IMAGE:$DOCKER_BRANCH"; fi'
+    )
+  }
+  if (rules.includes('semver')) {
+    lines.push(
+      "DOCKER_VERSION=$(git describe --tags --exact-match 2>/dev/null | sed -n 's/^v\\{0,1\\}\\([0-9]*\\.[0-9]*\\.[0-9]*\\)$/\\1/p')",
+      'if [ -n "$DOCKER_VERSION" ]; then DOCKER_TAGS="$DOCKER_TAGS -t $DOCKER_IMAGE:$DOCKER_VERSION -t $DOCKER_IMAGE:${DOCKER_VERSION%.*}"; fi'
+    )
+  }
+
+  const args = [`-f ${shellQuote(dockerfile || 'Dockerfile')}`]
+  if (options.platforms?.length) args.push(`--platform ${shellQuote(options.platforms.join(','))}`)
+  ;(options.buildArgs ?? []).forEach(arg => args.push(`--build-arg ${shellQuote(arg)}`))
+
+  if (!needsBuildx(options)) {
+    lines.push(`docker build ${args.join(' ')} $DOCKER_TAGS .`)
+    return lines.join('\n') + '\n'
+  }
+  if (options.push) {
+    const { username, password } = dockerCredentials(options)
+    const registry = imageRegistry(name)
+    lines.push(`printf '%s\\n' "$${password}" | docker login${registry ? ` ${shellQuote(registry)}` : ''} -u "$${username}" --password-stdin`)
+  }
+  lines.push('docker buildx create --name pipeline-builder --driver docker-container --use 2>/dev/null || docker buildx use pipeline-builder')
+  if (options.layerCache) {
+    const dir = `\${PIPELINE_CACHE_DIR:-$HOME/.cache/pipeline}/docker/${name.replace(/[^A-Za-z0-9._-]+/g, '_')}`
+    args.push(`--cache-from "type=local,src=${dir}"`, `--cache-to "type=local,dest=${dir},mode=max"`)
+  }
+  const output = options.push ? '--push' : (options.platforms?.length ?? 0) <= 1 ? '--load' : ''
+  lines.push(['docker buildx build', ...args, '$DOCKER_TAGS', output, '.'].filter(Boolean).join(' '))
+  return lines.join('\n') + '\n'
+}
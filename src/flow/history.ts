@@ -0,0 +1,135 @@
+import { useCallback, useRef, useState, type Dispatch, type SetStateAction } from 'react'
+import type { Edge, Node } from 'reactflow'
+
+/**
+ * 편집기 실행 취소/다시 실행 기록
+ * - 변경 직전의 그래프 스냅샷(nodes, edges)을 스택에 쌓는 방식
+ * - 같은 틱에서 여러 번 기록하면 하나로 합침 (노드 삭제 시 연결된 엣지 삭제까지 한 단계)
+ * - 같은 키의 연속 기록(속성 입력 등)은 일정 시간 안이면 하나로 합침
+ * - 드래그는 시작 시점 스냅샷을 보관했다가 실제로 이동했을 때만 기록
+ * - 그래프 밖의 상태(파이프라인 설정 등)는 함께 바뀌는 기록(그래프 전체 교체)에만 저장하고 되돌릴 때 복원
+ */
+
+interface Snapshot<T, X> {
+  nodes: Node<T>[]
+  edges: Edge[]
+  extra?: X
+}
+
+/** 그래프와 함께 기록할 수 있는 외부 상태 */
+export interface HistoryExtra<X> {
+  value: X
+  restore: (value: X) => void
+}
+
+// 보관할 최대 단계 수
+const HISTORY_LIMIT = 100
+// 같은 키의 기록을 하나로 합치는 시간 (ms)
+const COALESCE_MS = 1000
+
+export interface GraphHistory {
+  /** 다음 변경 직전에 호출. key가 같고 연속이면 이전 기록과 합침. withExtra면 외부 상태도 함께 기록 */
+  record: (key?: string, withExtra?: boolean) => void
+  /** 드래그 시작 */
+  beginDrag: () => void
+  /** 드래그 종료. 위치가 바뀐 노드가 있으면 한 단계로 기록 */
+  endDrag: () => void
+  undo: () => void
+  redo: () => void
+  canUndo: boolean
+  canRedo: boolean
+}
+
+export function useGraphHistory<T, X = never>(
+  nodes: Node<T>[],
+  edges: Edge[],
+  setNodes: Dispatch<SetStateAction<Node<T>[]>>,
+  setEdges: Dispatch<SetStateAction<Edge[]>>,
+  extra?: HistoryExtra<X>
+): GraphHistory {
+  const past = useRef<Snapshot<T, X>[]>([])
+  const future = useRef<Snapshot<T, X>[]>([])
+  const [sizes, setSizes] = useState({ past: 0, future: 0 })
+
+  // 이벤트 핸들러에서 최신 그래프/외부 상태를 읽기 위한 참조
+  const latest = useRef<Snapshot<T, X>>({ nodes, edges })
+  latest.current = { nodes, edges }
+  const latestExtra = useRef(extra)
+  latestExtra.current = extra
+
+  const lastRecord = useRef<{ key?: string, at: number }>({ at: 0 })
+  const recordedThisTick = useRef(false)
+  const dragStart = useRef<Snapshot<T, X> | null>(null)
+
+  const syncSizes = useCallback(() => {
+    setSizes({ past: past.current.length, future: future.current.length })
+  }, [])
+
+  const push = useCallback((snapshot: Snapshot<T, X>) => {
+    past.current = [...past.current, snapshot].slice(-HISTORY_LIMIT)
+    future.current = []
+    syncSizes()
+  }, [syncSizes])
+
+  const record = useCallback((key?: string, withExtra = false) => {
+    const now = Date.now()
+    const coalesce = recordedThisTick.current ||
+      (key !== undefined && key === lastRecord.current.key && now - lastRecord.current.at < COALESCE_MS)
+    lastRecord.current = { key, at: now }
+    if (coalesce) return
+
+    recordedThisTick.current = true
+    setTimeout(() => { recordedThisTick.current = false }, 0)
+    push(withExtra && latestExtra.current ? { ...latest.current, extra: latestExtra.current.value } : latest.current)
+  }, [push])
+
+  const beginDrag = useCallback(() => {
+    dragStart.current = latest.current
+  }, [])
+
+  const endDrag = useCallback(() => {
+    const start = dragStart.current
+    dragStart.current = null
+    if (!start) return
+    const before = new Map(start.nodes.map(n => [n.id, n.position]))
+    const moved = latest.current.nodes.some(n => {
+      const p = before.get(n.id)
+      return p !== undefined && (p.x !== n.position.x || p.y !== n.position.y)
+    })
+    if (moved) {
+      lastRecord.current = { at: Date.now() }
+      push(start)
+    }
+  }, [push])
+
+  const restore = useCallback((snapshot: Snapshot<T, X>) => {
+    setNodes(snapshot.nodes)
+    setEdges(snapshot.edges)
+    if (snapshot.extra !== undefined) latestExtra.current?.restore(snapshot.extra)
+    lastRecord.current = { at: 0 }
+  }, [setNodes, setEdges])
+
+  // 되돌릴 기록이 외부 상태를 담고 있으면 반대 방향 기록에도 현재 외부 상태를 담음
+  const current = useCallback((target: Snapshot<T, X>): Snapshot<T, X> =>
+    target.extra !== undefined && latestExtra.current ? { ...latest.current, extra: latestExtra.current.value } : latest.current, [])
+
+  const undo = useCallback(() => {
+    const previous = past.current[past.current.length - 1]
+    if (!previous) return
+    past.current = past.current.slice(0, -1)
+    future.current = [...future.current, current(previous)]
+    restore(previous)
+    syncSizes()
+  }, [current, restore, syncSizes])
+
+  const redo = useCallback(() => {
+    const next = future.current[future.current.length - 1]
+    if (!next) return
+    future.current = future.current.slice(0, -1)
+    past.current = [...past.current, current(next)]
+    restore(next)
+    syncSizes()
+  }, [current, restore, syncSizes])
+
+  return { record, beginDrag, endDrag, undo, redo, canUndo: sizes.past > 0, canRedo: sizes.future > 0 }
+}
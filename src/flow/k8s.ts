@@ -0,0 +1,102 @@
+import type { PipelineNode, PipelineNodeData } from './codegen'
+import { deployImageRef } from './docker'
+import { shellQuote } from './quoting'
+import type { YAMLValue } from './yamlEmitter'
+
+/**
+ * Kubernetes 배포 (deploy_k8s 노드)
+ * - kubectl: 매니페스트 `kubectl apply`, 이미지 교체(`kubectl set image`), `kubectl rollout status`
+ * - helm: `helm upgrade --install` (values 파일, 이미지 repository/tag `--set`, `--wait`)
+ * - kubeconfig는 시크릿에 저장된 파일 내용. GitHub Actions는 k8s-set-context 액션, 셸은 임시 파일로 설정
+ * - 이미지는 직접 입력하거나 앞 단계 docker_build 노드의 이미지를 참조
+ */
+
+export const DEFAULT_KUBECONFIG_SECRET = 'KUBE_CONFIG'
+
+/** kubeconfig 내용을 담은 시크릿 이름 */
+export const kubeconfigSecret = (n: PipelineNodeData): string => n.kubeconfigSecret?.trim() || DEFAULT_KUBECONFIG_SECRET
+
+/** 쉼표/공백으로 구분된 경로 목록 */
+export const splitPaths = (s: string | undefined): string[] => (s ?? '').split(/[\s,]+/).filter(Boolean)
+
+/**
+ * `imageFrom`으로 docker_build 노드를 참조하는 배포 노드의 `image`를 그 노드의 이미지로 채움
+ * - 코드 생성 전에 적용. 참조 대상이 없거나 docker_build가 아니면 그대로 둠
+ */
+export function resolveImageSources(nodes: PipelineNode[]): PipelineNode[] {
+  const byId = new Map(nodes.map(n => [n.id, n]))
+  return nodes.map(n => {
+    const source = n.data.kind === 'deploy_k8s' && n.data.imageFrom ? byId.get(n.data.imageFrom) : undefined
+    if (!source || source.data.kind !== 'docker_build') return n
+    return { ...n, data: { ...n.data, image: deployImageRef((source.data.tag ?? '').trim(), source.data.docker) } }
+  })
+}
+
+/**
+ * 이미지 참조를 큰따옴표 인자로. `$VAR`, `$(...)`는 실행 시 확장됨
+ */
+const imageWord = (image: string): string => `"${image.trim().replace(/["\\]/g, '\\$&')}"`
+
+/**
+ * 배포 명령 (GitHub Actions run step과 셸에서 공통)
+ */
+export function k8sDeployScript(n: PipelineNodeData): string {
+  const namespace = n.namespace?.trim() ? ` --namespace ${shellQuote(n.namespace.trim())}` : ''
+  const timeout = n.rolloutTimeout?.trim() || '5m'
+  const lines = [`# Deploy to Kubernetes (${n.deployTool || 'kubectl'})`]
+  const image = n.image?.trim()
+  if (image) lines.push(`DEPLOY_IMAGE=${imageWord(image)}`)
+
+  if (n.deployTool === 'helm') {
+    const args = [
+      'helm upgrade --install',
+      shellQuote(n.release?.trim() || ''),
+      shellQuote(n.chart?.trim() || ''),
+      namespace.trim(),
+      namespace ? '--create-namespace' : '',
+      ...splitPaths(n.valuesFiles).map(file => `-f ${shellQuote(file)}`),
+      image ? '--set image.repository="${DEPLOY_IMAGE%:*}" --set image.tag="${DEPLOY_IMAGE##*:}"' : '',
+      n.waitRollout ? `--wait --timeout ${shellQuote(timeout)}` : ''
+    ]
+    lines.push(args.filter(Boolean).join(' '))
+    return lines.join('\n') + '\n'
+  }
+
+  const manifests = splitPaths(n.manifests)
+  if (manifests.length > 0) lines.push(`kubectl apply${namespace} ${manifests.map(path => `-f ${shellQuote(path)}`).join(' ')}`)
+  const target = n.rolloutTarget?.trim()
+  if (target) {
+    if (image) lines.push(`kubectl set image${namespace} ${shellQuote(target)} "*=$DEPLOY_IMAGE"`)
+    if (n.waitRollout) lines.push(`kubectl rollout status${namespace} ${shellQuote(target)} --timeout=${shellQuote(timeout)}`)
+  }
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * 셸 실행 시 kubeconfig 설정: 시크릿 환경 변수 내용을 임시 파일에 쓰고 KUBECONFIG로 지정
+ */
+export function kubeconfigShell(n: PipelineNodeData): string {
+  const secret = kubeconfigSecret(n)
+  return `# Kubeconfig from $${secret}\nexport KUBECONFIG="$(mktemp)"\nprintf '%s\\n' "$${secret}" > "$KUBECONFIG"\n`
+}
+
+/**
+ * GitHub Actions step 목록: 도구 설치, 클러스터 컨텍스트 설정, 배포 run step
+ * - run: 배포 run step (이름/`if`/`env` 등 노드 속성 포함). `if`는 앞선 step에도 적용
+ */
+export function k8sSteps(n: PipelineNodeData, run: { [key: string]: YAMLValue }): YAMLValue[] {
+  const when = run.if
+  const setup = n.deployTool === 'helm'
+    ? { name: 'Set up Helm', if: when, uses: 'azure/setup-helm@v3' }
+    : { name: 'Set up kubectl', if: when, uses: 'azure/setup-kubectl@v3' }
+  return [
+    setup,
+    {
+      name: 'Set Kubernetes context',
+      if: when,
+      uses: 'azure/k8s-set-context@v3',
+      with: { method: 'kubeconfig', kubeconfig: `\${{ secrets.${kubeconfigSecret(n)} }}` }
+    },
+    run
+  ]
+}
@@ -0,0 +1,207 @@
+import { Position, type Edge } from 'reactflow'
+import type { PipelineNode } from './codegen'
+
+/**
+ * 계층형(Sugiyama 방식) 자동 배치
+ * 1. 사이클 제거: DFS 역방향 간선을 뒤집어 DAG로 만듦
+ * 2. 계층 할당: 최장 경로 기준 rank (선행 노드보다 항상 뒤)
+ * 3. 여러 계층을 건너는 간선에 더미 노드를 넣어 인접 계층 간선만 남김
+ * 4. 교차 최소화: 무게중심(barycenter) 정렬을 위/아래로 반복, 교차 수가 가장 적은 순서 채택
+ * 5. 좌표 할당: 이웃 평균 위치를 목표로 하되 노드 간 최소 간격 유지
+ */
+
+export type LayoutDirection = 'TB' | 'LR'
+
+// 측정 전 노드 크기 (PipelineNodeCard 기준)
+const DEFAULT_WIDTH = 200
+const DEFAULT_HEIGHT = 70
+const NODE_GAP = 40
+const RANK_GAP = 70
+const ORIGIN = { x: 50, y: 50 }
+const ORDER_SWEEPS = 8
+const POSITION_SWEEPS = 4
+
+/**
+ * 인접한 두 계층 사이의 간선 교차 수
+ */
+const countCrossings = (upper: string[], lower: string[], down: Map<string, string[]>): number => {
+  const lowerIndex = new Map(lower.map((id, i) => [id, i]))
+  const segments = upper.flatMap((id, i) => (down.get(id) ?? []).map(t => [i, lowerIndex.get(t) ?? 0] as const))
+  let crossings = 0
+  for (let a = 0; a < segments.length; a++) {
+    for (let b = a + 1; b < segments.length; b++) {
+      if ((segments[a][0] - segments[b][0]) * (segments[a][1] - segments[b][1]) < 0) crossings++
+    }
+  }
+  return crossings
+}
+
+/**
+ * 배치 방향에 맞는 입력/출력 핸들 위치
+ */
+export const handlePositions = (direction: LayoutDirection): { sourcePosition: Position, targetPosition: Position } =>
+  direction === 'TB'
+    ? { sourcePosition: Position.Bottom, targetPosition: Position.Top }
+    : { sourcePosition: Position.Right, targetPosition: Position.Left }
+
+/**
+ * 새 노드를 previous 뒤에 이어 붙일 위치 (진행 방향으로 한 계층 뒤)
+ */
+export const positionAfter = (previous: PipelineNode | undefined, direction: LayoutDirection): { x: number, y: number } => {
+  if (!previous) return { ...ORIGIN }
+  return direction === 'TB'
+    ? { x: previous.position.x, y: previous.position.y + DEFAULT_HEIGHT + RANK_GAP }
+    : { x: previous.position.x + DEFAULT_WIDTH + RANK_GAP, y: previous.position.y }
+}
+
+const mean = (values: number[]): number => values.reduce((sum, v) => sum + v, 0) / values.length
+
+/**
+ * 노드 위치를 계층형으로 재배치한 새 노드 배열을 반환 (입력은 변경하지 않음)
+ * - TB: 위→아래 진행, LR: 왼쪽→오른쪽 진행. 핸들 방향(source/targetPosition)도 함께 설정
+ */
+export function layoutGraph(nodes: PipelineNode[], edges: Edge[], direction: LayoutDirection = 'TB'): PipelineNode[] {
+  if (nodes.length === 0) return nodes
+  const ids = new Set(nodes.map(n => n.id))
+  const outgoing = new Map<string, string[]>(nodes.map(n => [n.id, []]))
+  edges.forEach(e => {
+    if (!ids.has(e.source) || !ids.has(e.target) || e.source === e.target) return
+    const targets = outgoing.get(e.source)!
+    if (!targets.includes(e.target)) targets.push(e.target)
+  })
+
+  // 1. 사이클 제거. Start → 진입 간선 없는 노드 → 나머지 순으로 DFS
+  const hasIncoming = new Set([...outgoing.values()].flat())
+  const roots = [
+    ...nodes.filter(n => n.data.kind === 'start'),
+    ...nodes.filter(n => n.data.kind !== 'start' && !hasIncoming.has(n.id)),
+    ...nodes
+  ].map(n => n.id)
+  const state = new Map<string, 'visiting' | 'done'>()
+  const dagEdges: [string, string][] = []
+  const visit = (id: string) => {
+    state.set(id, 'visiting')
+    for (const target of outgoing.get(id) ?? []) {
+      if (state.get(target) === 'visiting') {
+        dagEdges.push([target, id])
+        continue
+      }
+      dagEdges.push([id, target])
+      if (!state.has(target)) visit(target)
+    }
+    state.set(id, 'done')
+  }
+  roots.forEach(id => { if (!state.has(id)) visit(id) })
+
+  // 2. 최장 경로 rank (위상 순서대로 계산)
+  const preds = new Map<string, string[]>(nodes.map(n => [n.id, []]))
+  const succs = new Map<string, string[]>(nodes.map(n => [n.id, []]))
+  dagEdges.forEach(([s, t]) => {
+    if (succs.get(s)!.includes(t)) return
+    succs.get(s)!.push(t)
+    preds.get(t)!.push(s)
+  })
+  const indegree = new Map(nodes.map(n => [n.id, preds.get(n.id)!.length]))
+  const queue = roots.filter((id, i) => roots.indexOf(id) === i && indegree.get(id) === 0)
+  const rank = new Map<string, number>()
+  const topo: string[] = []
+  while (queue.length > 0) {
+    const id = queue.shift()!
+    topo.push(id)
+    rank.set(id, Math.max(0, ...preds.get(id)!.map(p => rank.get(p)! + 1)))
+    for (const next of succs.get(id)!) {
+      indegree.set(next, indegree.get(next)! - 1)
+      if (indegree.get(next) === 0) queue.push(next)
+    }
+  }
+
+  // 3. 계층 구성 + 더미 노드
+  const layers: string[][] = []
+  const place = (id: string, r: number) => { (layers[r] ??= []).push(id) }
+  const down = new Map<string, string[]>()
+  const up = new Map<string, string[]>()
+  const link = (s: string, t: string) => {
+    down.set(s, [...(down.get(s) ?? []), t])
+    up.set(t, [...(up.get(t) ?? []), s])
+  }
+  topo.forEach(id => place(id, rank.get(id)!))
+  let dummyCount = 0
+  topo.forEach(source => {
+    for (const target of succs.get(source)!) {
+      let previous = source
+      for (let r = rank.get(source)! + 1; r < rank.get(target)!; r++) {
+        const dummy = `__dummy_${dummyCount++}`
+        place(dummy, r)
+        link(previous, dummy)
+        previous = dummy
+      }
+      link(previous, target)
+    }
+  })
+
+  // 4. 교차 최소화
+  const totalCrossings = (order: string[][]) =>
+    order.slice(1).reduce((sum, layer, i) => sum + countCrossings(order[i], layer, down), 0)
+  const reorder = (layer: string[], neighbours: Map<string, string[]>, adjacent: string[]) => {
+    const index = new Map(adjacent.map((id, i) => [id, i]))
+    const weight = new Map(layer.map((id, i) => {
+      const linked = (neighbours.get(id) ?? []).map(n => index.get(n)).filter((v): v is number => v !== undefined)
+      return [id, linked.length > 0 ? mean(linked) : i]
+    }))
+    return [...layer].sort((a, b) => weight.get(a)! - weight.get(b)!)
+  }
+  let best = layers.map(layer => [...layer])
+  let bestCrossings = totalCrossings(best)
+  let current = best
+  for (let sweep = 0; sweep < ORDER_SWEEPS && bestCrossings > 0; sweep++) {
+    current = current.map(layer => [...layer])
+    if (sweep % 2 === 0) {
+      for (let r = 1; r < current.length; r++) current[r] = reorder(current[r], up, current[r - 1])
+    } else {
+      for (let r = current.length - 2; r >= 0; r--) current[r] = reorder(current[r], down, current[r + 1])
+    }
+    const crossings = totalCrossings(current)
+    if (crossings < bestCrossings) {
+      best = current
+      bestCrossings = crossings
+    }
+  }
+
+  // 5. 좌표 할당 (진행 방향과 수직인 축)
+  const measured = (key: 'width' | 'height', fallback: number) =>
+    Math.max(fallback, ...nodes.map(n => n[key] ?? 0))
+  const width = measured('width', DEFAULT_WIDTH)
+  const height = measured('height', DEFAULT_HEIGHT)
+  const spacing = (direction === 'TB' ? width : height) + NODE_GAP
+  const rankSpacing = (direction === 'TB' ? height : width) + RANK_GAP
+
+  const cross = new Map<string, number>()
+  best.forEach(layer => layer.forEach((id, i) => cross.set(id, i * spacing)))
+  const align = (layer: string[], neighbours: Map<string, string[]>) => {
+    const desired = layer.map(id => {
+      const linked = (neighbours.get(id) ?? []).map(n => cross.get(n)!)
+      return linked.length > 0 ? mean(linked) : cross.get(id)!
+    })
+    // 왼쪽부터 / 오른쪽부터 간격을 맞춘 두 배치의 평균 (둘 다 최소 간격을 만족하므로 평균도 만족)
+    const left = [...desired]
+    for (let i = 1; i < left.length; i++) left[i] = Math.max(left[i], left[i - 1] + spacing)
+    const right = [...desired]
+    for (let i = right.length - 2; i >= 0; i--) right[i] = Math.min(right[i], right[i + 1] - spacing)
+    layer.forEach((id, i) => cross.set(id, (left[i] + right[i]) / 2))
+  }
+  for (let sweep = 0; sweep < POSITION_SWEEPS; sweep++) {
+    for (let r = 1; r < best.length; r++) align(best[r], up)
+    for (let r = best.length - 2; r >= 0; r--) align(best[r], down)
+  }
+
+  const minCross = Math.min(...nodes.map(n => cross.get(n.id) ?? 0))
+  return nodes.map(n => {
+    const c = Math.round((cross.get(n.id) ?? 0) - minCross)
+    const main = (rank.get(n.id) ?? 0) * rankSpacing
+    return {
+      ...n,
+      position: direction === 'TB' ? { x: ORIGIN.x + c, y: ORIGIN.y + main } : { x: ORIGIN.x + main, y: ORIGIN.y + c },
+      ...handlePositions(direction)
+    }
+  })
+}
@@ -0,0 +1,182 @@
+import type { PipelineNodeKind } from './codegen'
+import { shellQuote, substituteExpressions } from './quoting'
+import type { YAMLValue } from './yamlEmitter'
+
+/**
+ * 매트릭스 빌드 (build_*, run_tests 노드)
+ * - 축(axis)마다 값 목록을 두고 모든 조합으로 job을 실행. include/exclude는 GitHub Actions 규칙을 따름
+ * - 매트릭스는 job 단위이므로 같은 job에 속한 노드들의 매트릭스를 합쳐서 사용
+ * - `os` 축은 runs-on, `node-version`/`python-version`/`java-version` 축은 setup 액션 버전으로 연결
+ * - 노드 속성에서는 `${{ matrix.NAME }}`으로 참조 (셸 실행 시 MATRIX_NAME 변수)
+ */
+
+export type MatrixEntry = Record<string, string>
+
+export interface PipelineMatrix {
+  axes: Record<string, string[]>
+  include?: MatrixEntry[]
+  exclude?: MatrixEntry[]
+}
+
+/** GitHub Actions가 허용하는 job당 최대 조합 수 */
+export const MAX_MATRIX_COMBINATIONS = 256
+
+const MATRIX_KINDS: PipelineNodeKind[] = ['build_npm', 'build_python', 'build_java', 'run_tests']
+
+/** 매트릭스를 설정할 수 있는 노드 종류 */
+export const supportsMatrix = (kind: PipelineNodeKind): boolean => MATRIX_KINDS.includes(kind)
+
+/** 언어별 버전 축 이름 (앞쪽 이름 우선) */
+export const VERSION_AXES: Record<'javascript' | 'python' | 'java', string[]> = {
+  javascript: ['node-version', 'node'],
+  python: ['python-version', 'python'],
+  java: ['java-version', 'java']
+}
+
+/** 실행 환경(OS) 축. 로컬 셸에서는 바꿀 수 없으므로 건너뜀 */
+export const OS_AXIS = 'os'
+
+/**
+ * 여러 노드의 매트릭스 병합 (축 값은 순서를 유지한 합집합)
+ */
+export function mergeMatrices(matrices: (PipelineMatrix | undefined)[]): PipelineMatrix | undefined {
+  const present = matrices.filter((m): m is PipelineMatrix => !!m)
+  const axes: Record<string, string[]> = {}
+  present.forEach(m => Object.entries(m.axes).forEach(([key, values]) => {
+    axes[key] = [...new Set([...(axes[key] ?? []), ...values])]
+  }))
+  const include = present.flatMap(m => m.include ?? [])
+  const exclude = present.flatMap(m => m.exclude ?? [])
+  if (Object.keys(axes).length === 0 && include.length === 0) return undefined
+  return { axes, include, exclude }
+}
+
+/** 매트릭스에서 참조 가능한 키 (축 + include로 추가되는 키) */
+export const matrixKeys = (matrix: PipelineMatrix | undefined): string[] =>
+  matrix ? [...new Set([...Object.keys(matrix.axes), ...(matrix.include ?? []).flatMap(Object.keys)])] : []
+
+/** 축 이름 후보 중 매트릭스에 있는 첫 번째 */
+export const findAxis = (matrix: PipelineMatrix | undefined, candidates: string[]): string | undefined =>
+  candidates.find(key => matrixKeys(matrix).includes(key))
+
+/**
+ * 실제 실행되는 조합 목록
+ * 1. 축의 카테시안 곱
+ * 2. exclude 항목과 일치하는 조합 제거
+ * 3. include 항목은 원래 축 값을 덮어쓰지 않는 모든 조합에 추가, 그런 조합이 없으면 새 조합으로 추가
+ */
+export function matrixCombinations(matrix: PipelineMatrix): MatrixEntry[] {
+  const axes = Object.entries(matrix.axes).filter(([, values]) => values.length > 0)
+  let combos: MatrixEntry[] = axes.length > 0 ? [{}] : []
+  axes.forEach(([key, values]) => {
+    combos = combos.flatMap(combo => values.map(value => ({ ...combo, [key]: value })))
+  })
+  const matches = (combo: MatrixEntry, entry: MatrixEntry) => Object.entries(entry).every(([k, v]) => combo[k] === v)
+  combos = combos.filter(combo => !(matrix.exclude ?? []).some(entry => Object.keys(entry).length > 0 && matches(combo, entry)))
+
+  const axisKeys = new Set(axes.map(([key]) => key))
+  const original = combos.map(combo => ({ ...combo }))
+  ;(matrix.include ?? []).forEach(entry => {
+    const fits = (i: number) => Object.entries(entry).every(([k, v]) => !axisKeys.has(k) || original[i][k] === v)
+    const targets = combos.map((_, i) => i).filter(fits)
+    if (targets.length === 0) combos.push({ ...entry })
+    else targets.forEach(i => { combos[i] = { ...combos[i], ...entry } })
+  })
+  return combos
+}
+
+/**
+ * 매트릭스 → `strategy.matrix` 값
+ */
+export function matrixToYAML(matrix: PipelineMatrix): YAMLValue {
+  return {
+    ...matrix.axes,
+    include: matrix.include?.length ? matrix.include : undefined,
+    exclude: matrix.exclude?.length ? matrix.exclude : undefined
+  }
+}
+
+/** 텍스트 한 줄 → 항목 (`os=windows-latest, node-version=18`) */
+export const parseMatrixEntry = (line: string): MatrixEntry =>
+  Object.fromEntries(line.split(',').map(pair => pair.split('=').map(s => s.trim())).filter(([k, v]) => k && v !== undefined))
+
+/** 항목 → 텍스트 한 줄 */
+export const formatMatrixEntry = (entry: MatrixEntry): string =>
+  Object.entries(entry).map(([k, v]) => `${k}=${v}`).join(', ')
+
+/* ───────────── 셸 ───────────── */
+
+// `${{ matrix.NAME }}`
+const MATRIX_EXPRESSION = /\$\{\{\s*matrix\.([A-Za-z_][A-Za-z0-9_-]*)\s*\}\}/g
+
+/** 셸 실행 시 매트릭스 값을 담는 변수 이름 (`node-version` → `MATRIX_NODE_VERSION`) */
+export const matrixVariable = (name: string): string => `MATRIX_${name.toUpperCase().replace(/[^A-Z0-9_]/g, '_')}`
+
+/** 텍스트에서 참조하는 매트릭스 키 */
+export const referencedMatrixKeys = (text: string): string[] => [...new Set([...text.matchAll(MATRIX_EXPRESSION)].map(m => m[1]))]
+
+/**
+ * 생성된 셸 스크립트의 매트릭스 표현식을 변수 참조로 치환
+ * - 인용된 heredoc 본문의 표현식도 값이 들어가도록 확장되는 heredoc으로 바꿈 (substituteExpressions)
+ */
+export const substituteMatrix = (script: string): string => substituteExpressions(script, MATRIX_EXPRESSION, matrixVariable)
+
+/**
+ * 조합마다 언어 버전을 바꾸는 버전 관리자 호출 (nvm, pyenv, /usr/lib/jvm)
+ * - 도구가 없으면 경고만 출력하고 현재 설치된 버전으로 진행
+ */
+const versionSwitch = (matrix: PipelineMatrix): string => {
+  const lines: string[] = []
+  const node = findAxis(matrix, VERSION_AXES.javascript)
+  if (node) {
+    const v = `"\${${matrixVariable(node)}}"`
+    lines.push(`if [ -s "\${NVM_DIR:-$HOME/.nvm}/nvm.sh" ]; then . "\${NVM_DIR:-$HOME/.nvm}/nvm.sh"; nvm install ${v} >/dev/null; nvm use ${v}; else echo "⚠ nvm not found, using node $(node --version 2>/dev/null || echo '?')" >&2; fi`)
+  }
+  const python = findAxis(matrix, VERSION_AXES.python)
+  if (python) {
+    const v = `"\${${matrixVariable(python)}}"`
+    lines.push(`if command -v pyenv >/dev/null 2>&1; then PYENV_VERSION="$(pyenv latest ${v} 2>/dev/null || echo ${v})"; export PYENV_VERSION; else echo "⚠ pyenv not found, using $(python3 --version 2>&1)" >&2; fi`)
+  }
+  const java = findAxis(matrix, VERSION_AXES.java)
+  if (java) {
+    const v = `"\${${matrixVariable(java)}}"`
+    lines.push(`JDK_DIR="$(ls -d /usr/lib/jvm/*-${v}-* 2>/dev/null | head -n 1 || true)"`)
+    lines.push(`if [ -n "$JDK_DIR" ]; then export JAVA_HOME="$JDK_DIR"; export PATH="$JAVA_HOME/bin:$PATH"; else echo "⚠ JDK ${v.slice(1, -1)} not found under /usr/lib/jvm" >&2; fi`)
+  }
+  return lines.map(line => `${line}\n`).join('')
+}
+
+/**
+ * 로컬(한 대의 머신)에서 실행할 조합
+ * - `os` 축은 바꿀 수 없으므로 제외하고 중복 조합을 합침
+ * - 일부 조합에만 있는 키(include로 추가된 키, os)는 빈 값으로 채워 모든 조합이 같은 변수를 갖도록 함
+ */
+export function localCombinations(matrix: PipelineMatrix): MatrixEntry[] {
+  const keys = matrixKeys(matrix)
+  const seen = new Set<string>()
+  return matrixCombinations(matrix)
+    .map(combo => Object.fromEntries(keys.map(key => [key, key === OS_AXIS ? '' : combo[key] ?? ''])))
+    .filter(combo => {
+      const id = JSON.stringify(combo)
+      if (seen.has(id)) return false
+      seen.add(id)
+      return true
+    })
+}
+
+/**
+ * 매트릭스 job을 로컬에서 조합별로 순서대로 실행하는 스크립트
+ * - job 본문은 서브셸 함수로 정의하여 조합 사이에 cd/export가 섞이지 않게 함
+ * - robust 모드에서는 조합 호출 전에 CURRENT_STAGE를 갱신 (실패 보고용)
+ */
+export function matrixShell(jobId: string, matrix: PipelineMatrix, body: string, robust = false): string {
+  const combos = localCombinations(matrix)
+  const fn = `matrix_${jobId.replace(/[^A-Za-z0-9_]/g, '_')}`
+  const skipped = matrixKeys(matrix).includes(OS_AXIS) ? ' (os axis runs on this machine only)' : ''
+  const calls = combos.map(combo => {
+    const label = `${jobId} [${formatMatrixEntry(Object.fromEntries(Object.entries(combo).filter(([, v]) => v !== '')))}]`
+    const assignments = Object.entries(combo).map(([key, value]) => `${matrixVariable(key)}=${value === '' ? '' : shellQuote(value)} `).join('')
+    return `echo ${shellQuote(`🔁 ${label}`)}\n${robust ? `CURRENT_STAGE=${shellQuote(label)}\n` : ''}${assignments}${fn}\n`
+  }).join('')
+  return `# Matrix: ${jobId}, ${combos.length} combination(s)${skipped}\n${fn}() (\n${versionSwitch(matrix)}${body})\n${calls}`
+}
@@ -0,0 +1,212 @@
+import type { PipelineNodeData, PipelineNodeKind } from './codegen'
+import { findShellMetachars, isEnvName } from './quoting'
+
+/**
+ * 노드 종류별 편집 가능한 속성 정의
+ * - 속성 인스펙터의 폼 구성과 필드 단위 검증의 기준이 됨
+ */
+
+/** 문자열 값을 갖는 PipelineNodeData 키 */
+export type StringFieldKey = {
+  [K in keyof PipelineNodeData]-?: NonNullable<PipelineNodeData[K]> extends string ? K : never
+}[keyof PipelineNodeData] & string
+
+/** 불리언 값을 갖는 PipelineNodeData 키 */
+export type BooleanFieldKey = {
+  [K in keyof PipelineNodeData]-?: NonNullable<PipelineNodeData[K]> extends boolean ? K : never
+}[keyof PipelineNodeData] & string
+
+export interface FieldSpec {
+  key: Exclude<StringFieldKey, 'kind'>
+  label: string
+  input: 'text' | 'select' | 'textarea'
+  options?: readonly string[]
+  /** 필수 입력 여부. 함수면 다른 속성에 따라 결정 */
+  required?: boolean | ((data: PipelineNodeData) => boolean)
+  placeholder?: string
+  /** 생성 스크립트의 명령 인자로 삽입되는 값 (셸 메타 문자 경고 대상) */
+  shellArg?: boolean
+  /** 값이 유효하지 않으면 오류 메시지를 반환 */
+  validate?: (value: string) => string | null
+  /** 다른 속성에 따라 필드를 보일지 결정 (숨겨진 필드는 편집/검증하지 않음) */
+  visible?: (data: PipelineNodeData) => boolean
+}
+
+const labelField: FieldSpec = { key: 'label', label: 'Label', input: 'text' }
+
+const validateRepoUrl = (v: string) =>
+  /^(https?:\/\/|ssh:\/\/|git@)\S+$/.test(v.trim()) ? null : 'http(s)://, ssh:// 또는 git@ 형식의 저장소 주소를 입력하세요'
+
+const validateBranch = (v: string) => {
+  const s = v.trim()
+  if (/\s/.test(s) || s.startsWith('-') || s.includes('..') || /[~^:?*[\\]/.test(s)) return '사용할 수 없는 브랜치 이름입니다'
+  return null
+}
+
+const validateImageTag = (v: string) =>
+  /^[a-z0-9][a-z0-9._\-/]*(:\d+\/[a-z0-9._\-/]+)?(:[\w][\w.-]{0,127})?$/.test(v.trim()) ? null : '이미지 이름은 소문자로 시작하고 `name:tag` 형식이어야 합니다'
+
+const validateChannel = (v: string) =>
+  /^[#@][\w.-]+$/.test(v.trim()) ? null : '채널은 #channel 또는 @user 형식이어야 합니다'
+
+const validateSecretName = (v: string) =>
+  isEnvName(v.trim()) ? null : '시크릿 이름은 영문자, 숫자, _만 사용할 수 있습니다'
+
+const validateNamespace = (v: string) =>
+  /^[a-z0-9]([-a-z0-9]{0,61}[a-z0-9])?$/.test(v.trim()) ? null : '네임스페이스는 소문자, 숫자, -로 이루어진 63자 이하 이름이어야 합니다'
+
+const validateTimeout = (v: string) =>
+  /^(?=\d)(\d+h)?(\d+m)?(\d+s)?$/.test(v.trim()) ? null : '시간은 5m, 90s, 1h30m 형식이어야 합니다'
+
+// 가져온 액션 step(`uses`)은 스크립트 없이도 실행 가능
+const isActionStep = (data: PipelineNodeData) => data.uses !== undefined
+
+const usesHelm = (data: PipelineNodeData) => data.deployTool === 'helm'
+const usesKubectl = (data: PipelineNodeData) => !usesHelm(data)
+
+export const NODE_FIELDS: Record<PipelineNodeKind, FieldSpec[]> = {
+  start: [labelField],
+  git_clone: [
+    labelField,
+    { key: 'repoUrl', label: 'Repository URL', input: 'text', required: true, placeholder: 'https://github.com/user/repo.git', shellArg: true, validate: validateRepoUrl },
+    { key: 'branch', label: 'Branch', input: 'text', required: true, placeholder: 'main', shellArg: true, validate: validateBranch }
+  ],
+  linux_install: [
+    labelField,
+    { key: 'osPkg', label: 'Package manager', input: 'select', options: ['apt', 'yum', 'apk'] },
+    { key: 'packages', label: 'Packages', input: 'text', required: true, placeholder: 'git curl', shellArg: true }
+  ],
+  prebuild_node: [
+    labelField,
+    { key: 'manager', label: 'Package manager', input: 'select', options: ['npm', 'yarn', 'pnpm'] }
+  ],
+  prebuild_python: [labelField],
+  prebuild_java: [
+    labelField,
+    { key: 'buildTool', label: 'Build tool', input: 'select', options: ['gradle', 'maven'] }
+  ],
+  prebuild_custom: [
+    labelField,
+    { key: 'uses', label: 'Action', input: 'text', required: true, placeholder: 'actions/cache@v4', visible: isActionStep },
+    { key: 'script', label: 'Script', input: 'textarea', required: (data) => !isActionStep(data), placeholder: 'echo "custom prebuild"' }
+  ],
+  build_npm: [labelField],
+  build_python: [labelField],
+  build_java: [labelField],
+  docker_build: [
+    labelField,
+    { key: 'dockerfile', label: 'Dockerfile', input: 'text', required: true, placeholder: 'Dockerfile', shellArg: true },
+    { key: 'tag', label: 'Image tag', input: 'text', required: true, placeholder: 'myapp:latest', shellArg: true, validate: validateImageTag }
+  ],
+  run_tests: [
+    labelField,
+    { key: 'testType', label: 'Test type', input: 'select', options: ['unit', 'integration', 'e2e'] },
+    { key: 'command', label: 'Command', input: 'textarea', required: true, placeholder: 'npm test' }
+  ],
+  deploy: [
+    labelField,
+    { key: 'environment', label: 'Environment', input: 'select', options: ['development', 'staging', 'production'] },
+    { key: 'deployScript', label: 'Deploy script', input: 'textarea', required: true, placeholder: './deploy.sh' }
+  ],
+  deploy_k8s: [
+    labelField,
+    { key: 'deployTool', label: 'Tool', input: 'select', options: ['kubectl', 'helm'] },
+    { key: 'kubeconfigSecret', label: 'Kubeconfig secret', input: 'text', placeholder: 'KUBE_CONFIG', validate: validateSecretName },
+    { key: 'namespace', label: 'Namespace', input: 'text', placeholder: 'default', shellArg: true, validate: validateNamespace },
+    { key: 'manifests', label: 'Manifests', input: 'text', required: true, placeholder: 'k8s/deployment.yaml, k8s/service.yaml', shellArg: true, visible: usesKubectl },
+    { key: 'rolloutTarget', label: 'Rollout target', input: 'text', placeholder: 'deployment/myapp', shellArg: true, visible: usesKubectl },
+    { key: 'chart', label: 'Chart', input: 'text', required: true, placeholder: './charts/myapp', shellArg: true, visible: usesHelm },
+    { key: 'release', label: 'Release', input: 'text', required: true, placeholder: 'myapp', shellArg: true, visible: usesHelm },
+    { key: 'valuesFiles', label: 'Values files', input: 'text', placeholder: 'values.yaml, values-prod.yaml', shellArg: true, visible: usesHelm },
+    { key: 'image', label: 'Image', input: 'text', placeholder: 'ghcr.io/org/myapp:$GITHUB_SHA', visible: (data) => !data.imageFrom },
+    { key: 'rolloutTimeout', label: 'Rollout timeout', input: 'text', placeholder: '5m', validate: validateTimeout, visible: (data) => !!data.waitRollout }
+  ],
+  notify_slack: [
+    labelField,
+    { key: 'channel', label: 'Channel', input: 'text', required: true, placeholder: '#deployments', validate: validateChannel },
+    { key: 'message', label: 'Message', input: 'textarea', required: true, placeholder: 'Deployment completed!' }
+  ]
+}
+
+/**
+ * 체크박스로 편집하는 실행 옵션
+ */
+export interface ToggleSpec {
+  key: BooleanFieldKey
+  label: string
+  description?: string
+}
+
+const continueOnErrorToggle: ToggleSpec = {
+  key: 'continueOnError',
+  label: 'Continue on error',
+  description: '실패해도 다음 단계를 계속 실행합니다'
+}
+
+const waitRolloutToggle: ToggleSpec = {
+  key: 'waitRollout',
+  label: 'Wait for rollout',
+  description: '배포가 완료될 때까지 기다리고, 시간 안에 끝나지 않으면 실패합니다'
+}
+
+/**
+ * 노드 종류별 실행 옵션 (Start 노드는 없음)
+ */
+export const nodeToggles = (kind: PipelineNodeKind): ToggleSpec[] => {
+  if (kind === 'start') return []
+  return kind === 'deploy_k8s' ? [waitRolloutToggle, continueOnErrorToggle] : [continueOnErrorToggle]
+}
+
+/**
+ * 노드 데이터 기준으로 보이는 필드 목록
+ */
+export const visibleFields = (data: PipelineNodeData): FieldSpec[] =>
+  (NODE_FIELDS[data.kind] ?? []).filter(field => !field.visible || field.visible(data))
+
+/**
+ * 노드 데이터 기준 필수 입력 여부
+ */
+export const isRequired = (spec: FieldSpec, data: PipelineNodeData): boolean =>
+  typeof spec.required === 'function' ? spec.required(data) : !!spec.required
+
+/**
+ * 필드 값 검증. 유효하면 null, 아니면 오류 메시지
+ */
+export function validateField(spec: FieldSpec, value: string | undefined, data: PipelineNodeData): string | null {
+  if (!value || !value.trim()) return isRequired(spec, data) ? '필수 입력 항목입니다' : null
+  return spec.validate ? spec.validate(value) : null
+}
+
+/**
+ * 필드 값 경고. 명령 인자로 들어가는 값에 셸 메타 문자가 있으면 메시지 반환
+ * - 생성 시 인용되므로 실행은 안전하지만, 의도한 값인지 확인하도록 알림
+ */
+export function fieldWarning(spec: FieldSpec, value: string | undefined): string | null {
+  if (!spec.shellArg || !value) return null
+  const chars = findShellMetachars(value)
+  return chars.length > 0 ? `셸 메타 문자(${chars.join(' ')})가 포함되어 있습니다. 인용되어 출력되지만 의도한 값인지 확인하세요` : null
+}
+
+/**
+ * 노드 데이터 → 사용자가 알아볼 기본 라벨
+ */
+export const labelFor = (data: Partial<PipelineNodeData>): string => {
+  switch (data.kind) {
+    case 'git_clone': return 'Git Clone'
+    case 'linux_install': return 'Linux Install'
+    case 'prebuild_node': return `Prebuild Node (${data.manager || 'npm'})`
+    case 'prebuild_python': return 'Prebuild Python'
+    case 'prebuild_java': return 'Prebuild Java'
+    case 'prebuild_custom': return 'Prebuild Custom'
+    case 'build_npm': return 'Build NPM'
+    case 'build_python': return 'Build Python'
+    case 'build_java': return 'Build Java'
+    case 'docker_build': return 'Docker Build'
+    case 'run_tests': return `Run Tests (${data.testType || ''})`
+    case 'deploy': return `Deploy (${data.environment || ''})`
+    case 'deploy_k8s': return `Deploy K8s (${data.deployTool || 'kubectl'})`
+    case 'notify_slack': return 'Notify Slack'
+    case 'start': return 'Start'
+    default: return data.kind || 'Node'
+  }
+}
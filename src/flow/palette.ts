@@ -0,0 +1,34 @@
+import type { PipelineNodeData, PipelineNodeKind } from './codegen'
+
+/**
+ * 좌측 팔레트 항목과 노드 종류별 기본값
+ * - 팔레트 클릭/드래그로 추가되는 노드와 템플릿의 노드가 같은 기본값을 사용
+ */
+
+export interface PaletteItem {
+  label: string
+  data: Partial<PipelineNodeData> & { kind: PipelineNodeKind }
+}
+
+export const PALETTE: PaletteItem[] = [
+  { label: 'Git Clone', data: { kind: 'git_clone', repoUrl: 'https://github.com/user/repo.git', branch: 'main' } },
+  { label: 'Linux Install', data: { kind: 'linux_install', osPkg: 'apt', packages: 'git curl' } },
+  { label: 'Prebuild Node', data: { kind: 'prebuild_node', manager: 'npm' } },
+  { label: 'Prebuild Python', data: { kind: 'prebuild_python' } },
+  { label: 'Prebuild Java', data: { kind: 'prebuild_java', buildTool: 'gradle' } },
+  { label: 'Prebuild Custom', data: { kind: 'prebuild_custom', script: 'echo "custom prebuild"' } },
+  { label: 'Build NPM', data: { kind: 'build_npm' } },
+  { label: 'Build Python', data: { kind: 'build_python' } },
+  { label: 'Build Java', data: { kind: 'build_java' } },
+  { label: 'Docker Build', data: { kind: 'docker_build', dockerfile: 'Dockerfile', tag: 'myapp:latest' } },
+  { label: 'Run Tests', data: { kind: 'run_tests', testType: 'unit', command: 'npm test' } },
+  { label: 'Deploy', data: { kind: 'deploy', environment: 'staging', deployScript: './deploy.sh' } },
+  { label: 'Deploy Kubernetes', data: { kind: 'deploy_k8s', deployTool: 'kubectl', namespace: 'default', manifests: 'k8s/', rolloutTarget: 'deployment/myapp', waitRollout: true, rolloutTimeout: '5m' } },
+  { label: 'Notify Slack', data: { kind: 'notify_slack', channel: '#deployments', message: 'Deployment completed!' } }
+]
+
+/**
+ * 노드 종류의 팔레트 기본 데이터 (팔레트에 없는 종류는 kind만)
+ */
+export const paletteDefaults = (kind: PipelineNodeKind): PaletteItem['data'] =>
+  ({ ...(PALETTE.find(p => p.data.kind === kind)?.data ?? { kind }) })
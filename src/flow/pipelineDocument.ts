@@ -0,0 +1,301 @@
+import type { Edge } from 'reactflow'
+import { DEFAULT_PIPELINE_SETTINGS, PIPELINE_NODE_TYPE, type PipelineNode, type PipelineNodeData, type PipelineNodeKind, type PipelineSettings } from './codegen'
+import { NODE_FIELDS } from './nodeSchema'
+
+/**
+ * 파이프라인 프로젝트 파일(`.pipeline.json`) 형식
+ * - 노드(위치 + PipelineNodeData), 엣지, 파이프라인 설정을 스키마 버전과 함께 저장
+ * - 불러올 때는 저장된 버전부터 현재 버전까지 마이그레이션을 순서대로 적용
+ * - 새로고침에 대비해 localStorage에 자동 저장
+ */
+
+/** 현재 문서 스키마 버전. 형식이 바뀌면 올리고 MIGRATIONS에 변환 함수를 추가 */
+export const PIPELINE_SCHEMA_VERSION = 2
+
+export interface PipelineDocument {
+  schemaVersion: number
+  settings: PipelineSettings
+  nodes: PipelineNode[]
+  edges: Edge[]
+  /** 저장 시각 (ISO 8601) */
+  savedAt?: string
+}
+
+/** 마이그레이션 입력은 이전 버전의 임의 JSON */
+type RawDocument = Record<string, unknown>
+
+/**
+ * 버전별 마이그레이션. 키 버전의 문서를 키 + 1 버전으로 변환
+ */
+const MIGRATIONS: Record<number, (doc: RawDocument) => RawDocument> = {
+  // v0: 스키마 버전 없이 React Flow `toObject()` 결과({ nodes, edges, viewport })를 그대로 저장하던 형식
+  0: doc => ({
+    schemaVersion: 1,
+    settings: { ...DEFAULT_PIPELINE_SETTINGS },
+    nodes: Array.isArray(doc.nodes) ? doc.nodes : [],
+    edges: Array.isArray(doc.edges) ? doc.edges : []
+  }),
+  // v1: 노드가 React Flow 기본 타입('default')으로 저장됨 → 파이프라인 노드 카드 타입으로 변경
+  1: doc => ({
+    ...doc,
+    schemaVersion: 2,
+    nodes: Array.isArray(doc.nodes)
+      ? doc.nodes.map(n => (isRecord(n) && (n.type === undefined || ['default', 'input', 'output'].includes(String(n.type))) ? { ...n, type: PIPELINE_NODE_TYPE } : n))
+      : []
+  })
+}
+
+const AUTOSAVE_KEY = 'react-flow-test:pipeline'
+
+const KNOWN_KINDS = new Set(Object.keys(NODE_FIELDS))
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v)
+
+/**
+ * 저장된 값의 기대 형식
+ * - list: 배열 (형식이 맞지 않는 항목은 제외), map: 임의 키 객체, fields: 정해진 키 객체 (required 키가 틀리면 객체 전체를 버림)
+ */
+type Shape = 'string' | 'boolean' | { list: Shape } | { map: Shape } | { fields: Record<string, Shape>, required?: string[] }
+
+/** 형식에 맞춘 값. 맞지 않으면 undefined (호출한 쪽에서 기본값 사용) */
+const conform = (value: unknown, shape: Shape): unknown => {
+  if (shape === 'string' || shape === 'boolean') return typeof value === shape ? value : undefined
+  if ('list' in shape) return Array.isArray(value) ? value.map(item => conform(item, shape.list)).filter(item => item !== undefined) : undefined
+  if (!isRecord(value)) return undefined
+  if ('map' in shape) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, conform(item, shape.map)]).filter(([, item]) => item !== undefined))
+  }
+  // 저장된 키 순서 유지
+  const out: Record<string, unknown> = {}
+  Object.entries(value).forEach(([key, item]) => {
+    const field = shape.fields[key]
+    const conformed = field && conform(item, field)
+    if (conformed !== undefined) out[key] = conformed
+  })
+  return shape.required?.some(key => out[key] === undefined) ? undefined : out
+}
+
+const STRING_LIST: Shape = { list: 'string' }
+const STRING_MAP: Shape = { map: 'string' }
+
+/** 노드 데이터 중 문자열이 아닌 필드의 형식. 나머지 알려진 필드는 문자열 */
+const NODE_DATA_SHAPES: Record<string, Shape> = {
+  triggers: {
+    fields: {
+      push: { fields: { branches: STRING_LIST, tags: STRING_LIST, paths: STRING_LIST } },
+      pullRequest: { fields: { branches: STRING_LIST, paths: STRING_LIST } },
+      schedule: STRING_LIST,
+      dispatch: {
+        fields: {
+          inputs: {
+            list: {
+              fields: { name: 'string', type: 'string', description: 'string', required: 'boolean', default: 'string', options: STRING_LIST },
+              required: ['name', 'type']
+            }
+          }
+        },
+        required: ['inputs']
+      }
+    }
+  },
+  matrix: { fields: { axes: { map: STRING_LIST }, include: { list: STRING_MAP }, exclude: { list: STRING_MAP } }, required: ['axes'] },
+  cache: { fields: { keyFiles: STRING_LIST, restoreKeys: STRING_LIST } },
+  produces: { list: { fields: { name: 'string', paths: STRING_LIST }, required: ['name', 'paths'] } },
+  consumes: STRING_LIST,
+  docker: {
+    fields: {
+      push: 'boolean', usernameSecret: 'string', passwordSecret: 'string', tagRules: STRING_LIST,
+      buildArgs: STRING_LIST, platforms: STRING_LIST, layerCache: 'boolean'
+    }
+  },
+  with: STRING_MAP,
+  env: STRING_MAP,
+  secrets: STRING_LIST,
+  waitRollout: 'boolean',
+  continueOnError: 'boolean'
+}
+
+/** 알려진 문자열 필드 (노드 종류별 속성 + 공통 속성) */
+const NODE_STRING_FIELDS = new Set([
+  'label', 'script', 'uses', 'job', 'condition', 'workingDirectory', 'imageFrom',
+  ...Object.values(NODE_FIELDS).flat().map(field => String(field.key))
+])
+
+/**
+ * 노드 데이터의 필드 형식 검사. 형식이 틀린 필드는 버려서 코드 생성 시 기본값을 쓰게 함 (알 수 없는 필드는 그대로 둠)
+ */
+const normalizeNodeData = (data: Record<string, unknown>): Record<string, unknown> => {
+  const next = { ...data }
+  Object.keys(next).forEach(key => {
+    const shape = NODE_DATA_SHAPES[key] ?? (NODE_STRING_FIELDS.has(key) ? 'string' : undefined)
+    if (!shape) return
+    const value = conform(next[key], shape)
+    if (value === undefined) {
+      console.warn(`노드 속성 '${key}'의 형식이 올바르지 않아 무시합니다`)
+      delete next[key]
+    } else {
+      next[key] = value
+    }
+  })
+  return next
+}
+
+/**
+ * 파이프라인 설정 검사. 형식이 틀린 항목은 기본값 사용
+ * - 변수 값은 문자열, 시크릿은 이름 목록만 유지
+ */
+const normalizeSettings = (raw: unknown): PipelineSettings => {
+  const settings = isRecord(raw) ? raw : {}
+  const pick = <K extends keyof PipelineSettings>(key: K, shape: Shape): PipelineSettings[K] =>
+    (conform(settings[key], shape) ?? DEFAULT_PIPELINE_SETTINGS[key]) as PipelineSettings[K]
+  return {
+    name: pick('name', 'string'),
+    robustShell: pick('robustShell', 'boolean'),
+    stepPerNode: pick('stepPerNode', 'boolean'),
+    env: pick('env', STRING_MAP),
+    secrets: pick('secrets', STRING_LIST)
+  }
+}
+
+/**
+ * 빈 파이프라인 (Start 노드 1개)
+ */
+export function emptyPipeline(settings: PipelineSettings = DEFAULT_PIPELINE_SETTINGS): PipelineDocument {
+  return {
+    schemaVersion: PIPELINE_SCHEMA_VERSION,
+    settings: { ...settings },
+    nodes: [{ id: 'start', position: { x: 50, y: 80 }, data: { kind: 'start', label: 'Start' }, type: PIPELINE_NODE_TYPE }],
+    edges: []
+  }
+}
+
+/**
+ * 현재 그래프 → 저장용 문서
+ * - 선택/드래그 상태, 측정 크기 등 실행 중에만 의미 있는 값은 제외
+ */
+export function serializePipeline(nodes: PipelineNode[], edges: Edge[], settings: PipelineSettings): PipelineDocument {
+  return {
+    schemaVersion: PIPELINE_SCHEMA_VERSION,
+    settings,
+    nodes: nodes.map(n => ({
+      id: n.id,
+      type: n.type,
+      position: { x: n.position.x, y: n.position.y },
+      sourcePosition: n.sourcePosition,
+      targetPosition: n.targetPosition,
+      data: n.data
+    })),
+    edges: edges.map(e => ({
+      id: e.id,
+      source: e.source,
+      target: e.target,
+      sourceHandle: e.sourceHandle,
+      targetHandle: e.targetHandle,
+      type: e.type,
+      animated: e.animated,
+      markerEnd: e.markerEnd,
+      data: e.data
+    })),
+    savedAt: new Date().toISOString()
+  }
+}
+
+/**
+ * 노드 하나를 검사하고 정규화. 알 수 없는 종류는 내용을 잃지 않도록 Prebuild Custom으로 변환
+ */
+const normalizeNode = (raw: unknown, index: number): PipelineNode => {
+  if (!isRecord(raw) || typeof raw.id !== 'string') throw new Error(`노드 #${index + 1}에 id가 없습니다`)
+  const position = isRecord(raw.position) ? raw.position : {}
+  const data = isRecord(raw.data) ? (normalizeNodeData(raw.data) as unknown as PipelineNodeData) : { kind: 'prebuild_custom' as PipelineNodeKind }
+  let nodeData: PipelineNodeData = { ...data }
+  if (!KNOWN_KINDS.has(String(data.kind))) {
+    console.warn(`알 수 없는 노드 종류 '${String(data.kind)}' → prebuild_custom으로 변환`)
+    nodeData = { kind: 'prebuild_custom', label: data.label || String(data.kind), script: `# unknown node kind: ${String(data.kind)}` }
+  }
+  const node = raw as unknown as PipelineNode
+  return {
+    id: node.id,
+    type: node.type,
+    position: { x: Number(position.x) || 0, y: Number(position.y) || 0 },
+    sourcePosition: node.sourcePosition,
+    targetPosition: node.targetPosition,
+    data: nodeData
+  }
+}
+
+/**
+ * JSON 문자열 → 현재 버전의 문서
+ * - 이전 버전은 마이그레이션, 더 새로운 버전이나 잘못된 형식은 오류
+ */
+export function parsePipelineDocument(json: string): PipelineDocument {
+  let raw: unknown
+  try {
+    raw = JSON.parse(json)
+  } catch {
+    throw new Error('JSON 형식이 올바르지 않습니다')
+  }
+  if (!isRecord(raw)) throw new Error('파이프라인 문서는 객체여야 합니다')
+
+  let doc: RawDocument = raw
+  let version = typeof doc.schemaVersion === 'number' ? doc.schemaVersion : 0
+  if (version > PIPELINE_SCHEMA_VERSION) {
+    throw new Error(`더 새로운 버전(v${version})의 파일입니다. 이 편집기는 v${PIPELINE_SCHEMA_VERSION}까지 지원합니다`)
+  }
+  while (version < PIPELINE_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version]
+    if (!migrate) throw new Error(`v${version} 문서를 변환할 수 없습니다`)
+    doc = migrate(doc)
+    version++
+  }
+
+  if (!Array.isArray(doc.nodes) || !Array.isArray(doc.edges)) throw new Error('nodes와 edges 배열이 필요합니다')
+  const nodes = doc.nodes.map(normalizeNode)
+  const ids = new Set(nodes.map(n => n.id))
+  const edges = (doc.edges as unknown[])
+    .filter((e): e is Edge => isRecord(e) && typeof e.id === 'string' && ids.has(String(e.source)) && ids.has(String(e.target)))
+
+  return {
+    schemaVersion: PIPELINE_SCHEMA_VERSION,
+    settings: normalizeSettings(doc.settings),
+    nodes,
+    edges,
+    savedAt: typeof doc.savedAt === 'string' ? doc.savedAt : undefined
+  }
+}
+
+/**
+ * 자동 저장된 문서 불러오기. 없거나 읽을 수 없으면 null
+ */
+export function loadAutosave(): PipelineDocument | null {
+  try {
+    const json = localStorage.getItem(AUTOSAVE_KEY)
+    return json ? parsePipelineDocument(json) : null
+  } catch (error) {
+    console.error('자동 저장된 파이프라인을 불러오지 못했습니다:', error)
+    return null
+  }
+}
+
+/**
+ * localStorage에 자동 저장 (용량 초과 등 실패는 로그만 남김)
+ */
+export function saveAutosave(doc: PipelineDocument): void {
+  try {
+    localStorage.setItem(AUTOSAVE_KEY, JSON.stringify(doc))
+  } catch (error) {
+    console.error('파이프라인 자동 저장 실패:', error)
+  }
+}
+
+/**
+ * 문서를 `.pipeline.json` 파일로 내려받기
+ */
+export function downloadPipeline(doc: PipelineDocument): void {
+  const slug = doc.settings.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'pipeline'
+  const url = URL.createObjectURL(new Blob([JSON.stringify(doc, null, 2)], { type: 'application/json' }))
+  const a = document.createElement('a')
+  a.href = url
+  a.download = `${slug}.pipeline.json`
+  a.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,161 @@
+/**
+ * 생성 스크립트에 사용자 입력을 안전하게 삽입하기 위한 인용 유틸리티
+ * - 셸 인자: POSIX 작은따옴표 인용 (`'` → `'\''`)
+ * - 주석: 개행 제거로 다음 줄 주입 방지
+ * - 여러 줄 데이터: 인용된 구분자의 heredoc으로 확장 없이 stdin 전달
+ * - CI 표현식(`${{ ... }}`): 인용 문맥에 맞춰 셸 변수 참조로 치환
+ */
+
+// 인용 없이 써도 해석이 바뀌지 않는 문자만으로 이루어진 단어
+const SAFE_WORD = /^[A-Za-z0-9_@%+=:,./-]+$/
+
+// 셸이 특별하게 해석하는 문자 (UI 경고용)
+const SHELL_METACHARS = /[`$\\;&|<>(){}*?!~'"#\n]/g
+
+/**
+ * 셸 인자 하나로 인용. 안전한 단어는 그대로 둠
+ */
+export const shellQuote = (s: string): string =>
+  s !== '' && SAFE_WORD.test(s) ? s : `'${s.replace(/'/g, `'\\''`)}'`
+
+/**
+ * 공백으로 구분된 목록을 단어별로 인용 (패키지 목록 등)
+ */
+export const shellQuoteWords = (s: string): string =>
+  s.trim().split(/\s+/).filter(Boolean).map(shellQuote).join(' ')
+
+/**
+ * 주석 한 줄에 넣을 텍스트 (개행을 공백으로 치환)
+ */
+export const shellComment = (s: string): string => s.replace(/[\r\n]+/g, ' ')
+
+/**
+ * 환경 변수 이름으로 사용 가능한지 여부
+ */
+export const isEnvName = (s: string): boolean => /^[A-Za-z_][A-Za-z0-9_]*$/.test(s)
+
+/**
+ * 인용된 구분자의 heredoc (`<<'EOF'` … `EOF`). 내용은 확장되지 않음
+ * - 내용에 구분자와 같은 줄이 있으면 구분자를 바꿔 충돌을 피함
+ */
+export const heredoc = (content: string, delimiter = 'EOF'): string => {
+  let d = delimiter
+  while (content.split('\n').includes(d)) d += '_'
+  return `<<'${d}'\n${content}\n${d}`
+}
+
+/**
+ * 값에 포함된 셸 메타 문자 목록 (중복 제거)
+ */
+export const findShellMetachars = (s: string): string[] => [...new Set(s.match(SHELL_METACHARS) ?? [])]
+
+// heredoc 연산자: `<<EOF`, `<<-EOF`, `<<'EOF'`, `<<"EOF"`, `<<\EOF` (`<<<` here-string 제외)
+const HEREDOC_OPERATOR = /(?<!<)<<(-?)[ \t]*(?:'([^'\n]+)'|"([^"\n]+)"|\\?([A-Za-z_][\w.-]*))/y
+
+/** heredoc 본문 범위: 본문 시작, 구분자 줄 시작, 구분자 줄 끝 */
+interface HeredocBody {
+  start: number
+  bodyEnd: number
+  end: number
+  /** 본문을 확장하는 heredoc으로 내보낼지 (원래 인용되지 않았거나 표현식 때문에 인용을 푼 경우) */
+  expand: boolean
+  /** 인용을 풀어서 `\`, `$`, `` ` ``를 이스케이프해야 하는지 */
+  escape: boolean
+}
+
+const findHeredocEnd = (script: string, start: number, delimiter: string, stripTabs: boolean): { bodyEnd: number, end: number } => {
+  let pos = start
+  while (pos < script.length) {
+    const newline = script.indexOf('\n', pos)
+    const lineEnd = newline < 0 ? script.length : newline
+    const line = script.slice(pos, lineEnd)
+    if ((stripTabs ? line.replace(/^\t+/, '') : line) === delimiter) return { bodyEnd: pos, end: lineEnd }
+    pos = lineEnd + 1
+  }
+  return { bodyEnd: script.length, end: script.length }
+}
+
+/**
+ * 셸 스크립트의 CI 표현식을 환경 변수 참조로 치환
+ * - expression: 첫 번째 그룹이 이름인 전역 정규식, variable: 이름 → 변수 이름
+ * - 작은따옴표 안: 따옴표를 잠시 닫고 `"${VAR}"`를 끼워 넣음
+ * - 큰따옴표 안: `${VAR}`, 그 외: `"${VAR}"`
+ * - 주석 안의 표현식은 `$VAR`로만 표시 (주석의 따옴표는 인용 상태에 영향 없음)
+ * - heredoc 본문: `${VAR}`. 인용된 heredoc(`<<'EOF'`)은 본문이 확장되지 않으므로, 표현식이 있으면
+ *   인용을 풀고 나머지 `\`, `$`, `` ` ``를 이스케이프해 원래 내용을 유지
+ */
+export function substituteExpressions(script: string, expression: RegExp, variable: (name: string) => string): string {
+  const at = new RegExp(expression.source, 'y')
+  const hasExpression = (text: string) => new RegExp(expression.source).test(text)
+  const expandBody = (body: string, escape: boolean): string => {
+    const literal = (text: string) => (escape ? text.replace(/[\\$`]/g, '\\$&') : text)
+    let out = ''
+    let last = 0
+    for (const match of body.matchAll(expression)) {
+      out += literal(body.slice(last, match.index)) + `\${${variable(match[1])}}`
+      last = match.index + match[0].length
+    }
+    return out + literal(body.slice(last))
+  }
+
+  let out = ''
+  let quote: '' | "'" | '"' = ''
+  let heredocs: HeredocBody[] = []
+  let i = 0
+  while (i < script.length) {
+    at.lastIndex = i
+    const match = at.exec(script)
+    if (match) {
+      const ref = `\${${variable(match[1])}}`
+      out += quote === "'" ? `'"${ref}"'` : quote === '"' ? ref : `"${ref}"`
+      i += match[0].length
+      continue
+    }
+    const c = script[i]
+    if (quote === '' && c === '<') {
+      HEREDOC_OPERATOR.lastIndex = i
+      const operator = HEREDOC_OPERATOR.exec(script)
+      const previous = heredocs[heredocs.length - 1]
+      const newline = script.indexOf('\n', i)
+      if (operator && (previous || newline >= 0)) {
+        const [text, dash, single, double, word] = operator
+        const delimiter = single ?? double ?? word
+        const quoted = word === undefined || text.includes('\\')
+        const start = previous ? previous.end + 1 : newline + 1
+        const { bodyEnd, end } = findHeredocEnd(script, start, delimiter, dash === '-')
+        const unquote = quoted && /^[A-Za-z_][\w.-]*$/.test(delimiter) && hasExpression(script.slice(start, bodyEnd))
+        heredocs.push({ start, bodyEnd, end, expand: !quoted || unquote, escape: unquote })
+        out += unquote ? `<<${dash}${delimiter}` : text
+        i += text.length
+        continue
+      }
+    }
+    if (quote === '' && c === '\n' && heredocs.length > 0) {
+      out += c
+      heredocs.forEach(h => {
+        const body = script.slice(h.start, h.bodyEnd)
+        out += (h.expand ? expandBody(body, h.escape) : body) + script.slice(h.bodyEnd, h.end)
+        if (h.end < script.length && h !== heredocs[heredocs.length - 1]) out += '\n'
+      })
+      i = heredocs[heredocs.length - 1].end
+      heredocs = []
+      continue
+    }
+    if (quote === '' && c === '#' && (i === 0 || /\s/.test(script[i - 1]))) {
+      const end = script.indexOf('\n', i)
+      const comment = script.slice(i, end < 0 ? script.length : end)
+      out += comment.replace(expression, (_, name: string) => `$${variable(name)}`)
+      i += comment.length
+      continue
+    }
+    if (c === '\\' && quote !== "'") {
+      out += script.slice(i, i + 2)
+      i += 2
+      continue
+    }
+    if ((c === "'" || c === '"') && (quote === '' || quote === c)) quote = quote === c ? '' : c
+    out += c
+    i++
+  }
+  return out
+}
@@ -0,0 +1,322 @@
+import { load } from 'yaml-ast-parser'
+import { countYAMLSteps, unsupportedYAMLKeys } from './codegen'
+import type { DiagnosticSeverity } from './validation'
+
+/**
+ * 코드 편집기용 문법 강조와 오류 검사
+ * - 줄 단위 토큰화 (YAML 블록 스칼라, 셸 heredoc/여러 줄 문자열, Groovy `'''` 문자열은 다음 줄로 상태를 넘김)
+ * - YAML 오류: yaml-ast-parser가 보고하는 `errors`의 위치와 메시지
+ * - 셸 오류: 닫히지 않은 따옴표/heredoc, 짝이 맞지 않는 `if/fi`, `do/done`, `case/esac`, 괄호
+ * - 가져오기 검사: 그래프로 가져올 단계가 없으면 오류 (저장 시 빈 그래프가 되는 경우), 가져올 때 버려지는 키는 경고
+ */
+
+export type CodeLanguage = 'yaml' | 'shell' | 'groovy'
+
+export type TokenType = 'comment' | 'string' | 'keyword' | 'key' | 'variable' | 'number' | 'operator'
+
+export interface Token {
+  text: string
+  type?: TokenType
+}
+
+/** 편집 중인 코드의 오류 (줄/열은 0부터) */
+export interface CodeDiagnostic {
+  line: number
+  column: number
+  severity: DiagnosticSeverity
+  message: string
+}
+
+type Rule = [RegExp, TokenType | undefined]
+
+/** 같은 종류의 글자 토큰은 합침. 연산자/키워드는 구조 검사를 위해 따로 둠 */
+const push = (tokens: Token[], text: string, type?: TokenType) => {
+  const last = tokens[tokens.length - 1]
+  if (last && last.type === type && type !== 'operator' && type !== 'keyword') last.text += text
+  else tokens.push({ text, type })
+}
+
+/** 규칙(sticky 정규식)을 순서대로 시도해 토큰화. 맞는 규칙이 없으면 한 글자씩 일반 텍스트 */
+const scan = (text: string, rules: Rule[], tokens: Token[] = []): Token[] => {
+  let pos = 0
+  while (pos < text.length) {
+    const rule = rules.find(([pattern]) => {
+      pattern.lastIndex = pos
+      const m = pattern.exec(text)
+      return !!m && m[0].length > 0
+    })
+    if (rule) {
+      const [pattern, type] = rule
+      pattern.lastIndex = pos
+      const m = pattern.exec(text)!
+      push(tokens, m[0], type)
+      pos += m[0].length
+    } else {
+      push(tokens, text[pos])
+      pos++
+    }
+  }
+  return tokens
+}
+
+/* ───────────── YAML ───────────── */
+
+const YAML_VALUE_RULES: Rule[] = [
+  [/(?<=^|\s)#.*/y, 'comment'],
+  [/\$\{\{.*?\}\}/y, 'variable'],
+  [/"(?:[^"\\]|\\.)*"?/y, 'string'],
+  [/'(?:[^']|'')*'?/y, 'string'],
+  [/(?<=^|[\s,[{])[&*][^\s,[\]{}]+/y, 'variable'],
+  [/(?<=^|[\s,[{])(?:true|false|null|yes|no|on|off|~)(?=$|[\s,\]}#])/iy, 'keyword'],
+  [/(?<=^|[\s,[{])-?\d+(?:\.\d+)?(?=$|[\s,\]}])/y, 'number'],
+  [/(?<=^|\s)-(?=\s|$)/y, 'operator'],
+  [/[|>][-+0-9]*(?=\s*(?:#.*)?$)/y, 'operator'],
+  [/[[\]{},]/y, 'operator'],
+  [/[^\s#"'$[\]{},]+/y, undefined]
+]
+
+const YAML_KEY = /^(\s*(?:-\s+)*)("(?:[^"\\]|\\.)*"|'[^']*'|[^\s#'"[\]{},][^#]*?)(\s*:)(?=\s|$)/
+const YAML_BLOCK_SCALAR = /(?:^|\s)[|>][-+0-9]*\s*(?:#.*)?$/
+
+interface YAMLState {
+  /** 블록 스칼라(`|`, `>`)를 시작한 줄의 들여쓰기. 이보다 깊은 줄은 문자열 */
+  block: number | null
+}
+
+function yamlLine(line: string, state: YAMLState): Token[] {
+  const indent = line.length - line.trimStart().length
+  if (state.block !== null) {
+    if (!line.trim() || indent > state.block) return [{ text: line, type: 'string' }]
+    state.block = null
+  }
+  if (/^(?:---|\.\.\.)\s*$/.test(line)) return [{ text: line, type: 'operator' }]
+
+  const tokens: Token[] = []
+  let rest = line
+  const key = YAML_KEY.exec(line)
+  if (key) {
+    scan(key[1], YAML_VALUE_RULES, tokens)
+    push(tokens, key[2], 'key')
+    push(tokens, key[3], 'operator')
+    rest = line.slice(key[0].length)
+  }
+  scan(rest, YAML_VALUE_RULES, tokens)
+  if (YAML_BLOCK_SCALAR.test(rest)) state.block = indent
+  return tokens
+}
+
+/**
+ * YAML 파서 오류 + (importable이면) 그래프로 가져올 step이 있는지와 버려지는 키 검사
+ */
+export function yamlDiagnostics(text: string, importable = false): CodeDiagnostic[] {
+  const lastLine = text.split('\n').length - 1
+  const ast = load(text)
+  const diagnostics: CodeDiagnostic[] = (ast?.errors ?? []).map(error => ({
+    line: Math.min(error.mark?.line ?? 0, lastLine),
+    column: error.mark?.column ?? 0,
+    severity: error.isWarning ? 'warning' : 'error',
+    message: error.reason
+  }))
+  if (importable && !diagnostics.some(d => d.severity === 'error') && countYAMLSteps(ast) === 0) {
+    diagnostics.push({ line: 0, column: 0, severity: 'error', message: '`jobs.<id>.steps`에 step이 없어 그래프로 가져올 수 없습니다.' })
+  }
+  if (importable) {
+    unsupportedYAMLKeys(ast).forEach(({ path, position }) => {
+      const before = text.slice(0, position).split('\n')
+      diagnostics.push({
+        line: before.length - 1,
+        column: before[before.length - 1].length,
+        severity: 'warning',
+        message: `'${path}'은(는) 그래프로 가져올 때 무시됩니다.`
+      })
+    })
+  }
+  return diagnostics.filter((d, i) => diagnostics.findIndex(o => o.line === d.line && o.message === d.message) === i)
+}
+
+/* ───────────── 셸 ───────────── */
+
+const SHELL_KEYWORDS = new Set([
+  'if', 'then', 'else', 'elif', 'fi', 'case', 'esac', 'for', 'select', 'while', 'until', 'do', 'done', 'in',
+  'function', 'time', '!', '{', '}', 'return', 'exit', 'export', 'local', 'readonly', 'set', 'shift', 'trap', 'source', '.'
+])
+
+/** 다음 단어도 명령 위치인 키워드 */
+const SHELL_COMMAND_PREFIX = new Set(['if', 'then', 'else', 'elif', 'do', 'while', 'until', 'time', '!', '{', '}', 'fi', 'done', 'esac'])
+
+interface ShellState {
+  /** 다음 줄로 이어지는 문자열의 따옴표와 시작 위치 */
+  quote: { char: string, line: number, column: number } | null
+  /** 본문을 읽는 중인 heredoc 구분자 */
+  heredoc: { delimiter: string, line: number } | null
+}
+
+/** 줄의 pos부터 닫는 따옴표 다음 위치. 없으면 -1 */
+const closingQuote = (line: string, pos: number, char: string): number => {
+  for (let i = pos; i < line.length; i++) {
+    if (char === '"' && line[i] === '\\') i++
+    else if (line[i] === char) return i + 1
+  }
+  return -1
+}
+
+function shellLine(line: string, lineIndex: number, state: ShellState): Token[] {
+  const tokens: Token[] = []
+  if (state.heredoc) {
+    if (line.replace(/^\t+/, '').trimEnd() === state.heredoc.delimiter) state.heredoc = null
+    return [{ text: line, type: 'string' }]
+  }
+
+  let pos = 0
+  if (state.quote) {
+    const end = closingQuote(line, 0, state.quote.char)
+    if (end < 0) return [{ text: line, type: 'string' }]
+    push(tokens, line.slice(0, end), 'string')
+    state.quote = null
+    pos = end
+  }
+
+  let command = pos === 0
+  let heredoc: string | null = null
+  const match = (pattern: RegExp) => {
+    pattern.lastIndex = pos
+    return pattern.exec(line)?.[0]
+  }
+  while (pos < line.length) {
+    const char = line[pos]
+    let text: string | undefined
+    if ((text = match(/\s+/y))) {
+      push(tokens, text)
+    } else if (char === '#' && (pos === 0 || /\s/.test(line[pos - 1]))) {
+      push(tokens, (text = line.slice(pos)), 'comment')
+    } else if (char === '\'' || char === '"') {
+      const end = closingQuote(line, pos + 1, char)
+      if (end < 0) state.quote = { char, line: lineIndex, column: pos }
+      push(tokens, (text = line.slice(pos, end < 0 ? undefined : end)), 'string')
+      command = false
+    } else if ((text = match(/<<-?\s*(['"]?)([A-Za-z_][\w.-]*)\1/y))) {
+      heredoc = /([A-Za-z_][\w.-]*)['"]?$/.exec(text)![1]
+      push(tokens, text, 'operator')
+    } else if ((text = match(/\$\(/y))) {
+      push(tokens, text, 'operator')
+      command = true
+    } else if ((text = match(/\$(?:\{[^}]*\}?|[A-Za-z_]\w*|[0-9@#?*$!-])/y))) {
+      push(tokens, text, 'variable')
+      command = false
+    } else if ((text = match(/&&|\|\||;;|[|;&()]/y))) {
+      push(tokens, text, 'operator')
+      command = true
+    } else if ((text = match(/\d*(?:>>|[<>]&?)\d*-?/y))) {
+      push(tokens, text, 'operator')
+      command = false
+    } else {
+      text = match(/[^\s'"$;&|()<>]+/y) ?? char
+      if (command && SHELL_KEYWORDS.has(text)) {
+        push(tokens, text, 'keyword')
+        command = SHELL_COMMAND_PREFIX.has(text)
+      } else {
+        push(tokens, text, /^-?\d+$/.test(text) ? 'number' : undefined)
+        // 변수 대입 뒤는 여전히 명령 위치
+        command = command && /^[A-Za-z_]\w*=/.test(text)
+      }
+    }
+    pos += text.length
+  }
+  if (heredoc) state.heredoc = { delimiter: heredoc, line: lineIndex }
+  return tokens
+}
+
+const SHELL_PAIRS: Record<string, string> = { if: 'fi', case: 'esac', do: 'done', '{': '}', '(': ')', '$(': ')' }
+
+/**
+ * 셸 구조 검사 + (importable이면) 그래프로 가져올 `# 주석` 단계가 있는지 검사
+ */
+export function shellDiagnostics(text: string, importable = false): CodeDiagnostic[] {
+  const diagnostics: CodeDiagnostic[] = []
+  const error = (line: number, column: number, message: string, severity: DiagnosticSeverity = 'error') =>
+    diagnostics.push({ line, column, severity, message })
+  const state: ShellState = { quote: null, heredoc: null }
+  const stack: { open: string, line: number, column: number }[] = []
+
+  text.split('\n').forEach((line, lineIndex) => {
+    let column = 0
+    shellLine(line, lineIndex, state).forEach(({ text: token, type }) => {
+      const at = column
+      column += token.length
+      if (type !== 'keyword' && type !== 'operator') return
+      if (SHELL_PAIRS[token]) {
+        stack.push({ open: token, line: lineIndex, column: at })
+        return
+      }
+      if (!Object.values(SHELL_PAIRS).includes(token)) return
+      // case 패턴의 `)`는 짝이 없음
+      if (token === ')' && stack[stack.length - 1]?.open === 'case') return
+      const index = stack.map(entry => SHELL_PAIRS[entry.open]).lastIndexOf(token)
+      if (index < 0) {
+        error(lineIndex, at, `'${token}'에 맞는 여는 부분이 없습니다.`)
+        return
+      }
+      stack.splice(index).slice(1).forEach(entry => error(entry.line, entry.column, `'${entry.open}'이(가) '${token}' 전에 닫히지 않았습니다.`))
+    })
+  })
+
+  stack.forEach(entry => error(entry.line, entry.column, `'${entry.open}'이(가) 닫히지 않았습니다. '${SHELL_PAIRS[entry.open]}'이(가) 필요합니다.`))
+  if (state.quote) error(state.quote.line, state.quote.column, `따옴표(${state.quote.char})가 닫히지 않았습니다.`)
+  if (state.heredoc) error(state.heredoc.line, 0, `heredoc 종료 줄 '${state.heredoc.delimiter}'이(가) 없습니다.`, 'warning')
+  if (importable && !text.split('\n').some(line => /^\s*#./.test(line))) {
+    error(0, 0, '`# 단계 이름` 주석 줄이 없어 그래프로 가져올 단계가 없습니다.')
+  }
+  return diagnostics.sort((a, b) => a.line - b.line || a.column - b.column)
+}
+
+/* ───────────── Groovy (Jenkinsfile) ───────────── */
+
+const GROOVY_KEYWORDS = /(?:pipeline|agent|any|none|stages|stage|steps|sh|post|always|success|failure|environment|when|expression|parallel|matrix|axes|axis|name|values|options|tools|parameters|script|if|else|def|return|true|false|null)(?![\w$])/y
+
+const GROOVY_RULES: Rule[] = [
+  [/\/\/.*/y, 'comment'],
+  [/\/\*.*?(?:\*\/|$)/y, 'comment'],
+  [/"(?:[^"\\]|\\.)*"?/y, 'string'],
+  [/'(?:[^'\\]|\\.)*'?/y, 'string'],
+  [/(?<![\w$])\d+(?:\.\d+)?/y, 'number'],
+  [GROOVY_KEYWORDS, 'keyword'],
+  [/[{}()[\]]/y, 'operator'],
+  [/[\w$.]+/y, undefined]
+]
+
+function groovyLines(lines: string[]): Token[][] {
+  let triple: string | null = null
+  return lines.map(line => {
+    const tokens: Token[] = []
+    let rest = line
+    if (triple) {
+      const end = rest.indexOf(triple)
+      if (end < 0) return [{ text: line, type: 'string' }]
+      push(tokens, rest.slice(0, end + 3), 'string')
+      rest = rest.slice(end + 3)
+      triple = null
+    }
+    const open = /'''|"""/.exec(rest)
+    if (open && rest.indexOf(open[0], open.index + 3) < 0) {
+      triple = open[0]
+      scan(rest.slice(0, open.index), GROOVY_RULES, tokens)
+      push(tokens, rest.slice(open.index), 'string')
+      return tokens
+    }
+    return scan(rest, GROOVY_RULES, tokens)
+  })
+}
+
+/**
+ * 문법 강조용 줄별 토큰
+ */
+export function highlight(text: string, language: CodeLanguage): Token[][] {
+  const lines = text.split('\n')
+  if (language === 'groovy') return groovyLines(lines)
+  if (language === 'shell') {
+    const state: ShellState = { quote: null, heredoc: null }
+    return lines.map((line, i) => shellLine(line, i, state))
+  }
+  const state: YAMLState = { block: null }
+  return lines.map(line => yamlLine(line, state))
+}
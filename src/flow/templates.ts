@@ -0,0 +1,191 @@
+import { MarkerType, type Edge } from 'reactflow'
+import { DEFAULT_PIPELINE_SETTINGS, PIPELINE_NODE_TYPE, edgeCondition, type PipelineNode, type PipelineNodeData, type PipelineNodeKind } from './codegen'
+import { labelFor } from './nodeSchema'
+import { paletteDefaults } from './palette'
+import { PIPELINE_SCHEMA_VERSION, type PipelineDocument } from './pipelineDocument'
+
+/**
+ * 자주 쓰는 프로젝트 유형별 파이프라인 템플릿
+ * - 템플릿은 프로젝트 파일과 같은 PipelineDocument 형식 (노드 데이터는 팔레트 기본값 기준)
+ * - 캔버스에 넣을 때는 id를 새로 발급하여 그래프 전체를 교체하거나 선택한 노드 뒤에 삽입
+ */
+
+export interface PipelineTemplate {
+  id: string
+  name: string
+  description: string
+  document: PipelineDocument
+}
+
+/** 템플릿 정의용 단계: key로 서로를 참조하고 after가 비어 있으면 Start 바로 뒤 */
+interface TemplateStep {
+  key: string
+  kind: PipelineNodeKind
+  after?: string[]
+  data?: Partial<PipelineNodeData>
+}
+
+// 템플릿 배치 간격 (위→아래로 진행, 같은 단계의 병렬 노드는 가로로 나열)
+const COLUMN_GAP = 220
+const ROW_GAP = 110
+
+const templateEdge = (source: string, target: string): Edge => ({
+  id: `e-${source}-${target}`,
+  source,
+  target,
+  type: 'smoothstep',
+  animated: true,
+  markerEnd: { type: MarkerType.ArrowClosed, width: 20, height: 20 }
+})
+
+/**
+ * 단계 목록 → 문서. 선행 단계 기준으로 행을 정하고 같은 행의 노드는 가로로 배치
+ */
+const buildDocument = (name: string, steps: TemplateStep[]): PipelineDocument => {
+  const rows = new Map<string, number>([['start', 0]])
+  const perRow = new Map<number, number>()
+  const nodes: PipelineNode[] = [{ id: 'start', type: PIPELINE_NODE_TYPE, position: { x: 100, y: 80 }, data: { kind: 'start', label: 'Start' } }]
+  const edges: Edge[] = []
+
+  steps.forEach(step => {
+    const after = step.after?.length ? step.after : ['start']
+    const row = Math.max(...after.map(key => rows.get(key) ?? 0)) + 1
+    const column = perRow.get(row) ?? 0
+    rows.set(step.key, row)
+    perRow.set(row, column + 1)
+
+    const data = { ...paletteDefaults(step.kind), ...step.data } as PipelineNodeData
+    nodes.push({
+      id: step.key,
+      type: PIPELINE_NODE_TYPE,
+      position: { x: 100 + column * COLUMN_GAP, y: 80 + row * ROW_GAP },
+      data: { ...data, label: data.label || labelFor(data) }
+    })
+    after.forEach(key => edges.push(templateEdge(key, step.key)))
+  })
+
+  return { schemaVersion: PIPELINE_SCHEMA_VERSION, settings: { ...DEFAULT_PIPELINE_SETTINGS, name }, nodes, edges }
+}
+
+export const TEMPLATES: PipelineTemplate[] = [
+  {
+    id: 'node-web-app',
+    name: 'Node web app',
+    description: '의존성 설치 후 테스트와 빌드를 병렬로 실행하고 staging에 배포',
+    document: buildDocument('Node Web App CI', [
+      { key: 'clone', kind: 'git_clone' },
+      { key: 'install', kind: 'prebuild_node', after: ['clone'] },
+      { key: 'test', kind: 'run_tests', after: ['install'] },
+      { key: 'build', kind: 'build_npm', after: ['install'] },
+      { key: 'deploy', kind: 'deploy', after: ['test', 'build'] }
+    ])
+  },
+  {
+    id: 'python-package',
+    name: 'Python package',
+    description: '가상 환경 준비, pytest 실행, 패키지 빌드',
+    document: buildDocument('Python Package CI', [
+      { key: 'clone', kind: 'git_clone' },
+      { key: 'venv', kind: 'prebuild_python', after: ['clone'] },
+      { key: 'test', kind: 'run_tests', after: ['venv'], data: { command: 'pytest' } },
+      { key: 'build', kind: 'build_python', after: ['test'] }
+    ])
+  },
+  {
+    id: 'java-gradle',
+    name: 'Java Gradle',
+    description: 'Gradle Wrapper로 빌드와 테스트 실행',
+    document: buildDocument('Java Gradle CI', [
+      { key: 'clone', kind: 'git_clone' },
+      { key: 'wrapper', kind: 'prebuild_java', after: ['clone'] },
+      { key: 'build', kind: 'build_java', after: ['wrapper'] },
+      { key: 'test', kind: 'run_tests', after: ['build'], data: { command: './gradlew test' } }
+    ])
+  },
+  {
+    id: 'dockerized-service',
+    name: 'Dockerized service',
+    description: '이미지 빌드, 컨테이너 안에서 테스트, production 배포 후 Slack 알림',
+    document: buildDocument('Dockerized Service CI/CD', [
+      { key: 'clone', kind: 'git_clone' },
+      { key: 'image', kind: 'docker_build', after: ['clone'] },
+      { key: 'test', kind: 'run_tests', after: ['image'], data: { testType: 'integration', command: 'docker run --rm myapp:latest npm test' } },
+      { key: 'deploy', kind: 'deploy', after: ['test'], data: { environment: 'production' } },
+      { key: 'notify', kind: 'notify_slack', after: ['deploy'] }
+    ])
+  }
+]
+
+/**
+ * 템플릿 문서 → 캔버스에 넣을 노드/엣지 (id 재발급)
+ */
+export function instantiateTemplate(doc: PipelineDocument): { nodes: PipelineNode[], edges: Edge[] } {
+  const stamp = Date.now()
+  const ids = new Map(doc.nodes.map((n, i) => [n.id, `${n.data.kind}-${stamp}-${i}-${Math.round(Math.random() * 1e4)}`]))
+  return {
+    nodes: doc.nodes.map(n => ({ ...n, id: ids.get(n.id)!, data: { ...n.data }, selected: false })),
+    edges: doc.edges
+      .filter(e => ids.has(e.source) && ids.has(e.target))
+      .map(e => ({ ...e, id: `e-${ids.get(e.source)}-${ids.get(e.target)}`, source: ids.get(e.source)!, target: ids.get(e.target)! }))
+  }
+}
+
+/**
+ * 템플릿을 anchor 노드 뒤에 삽입
+ * - 템플릿의 Start는 버리고, Start 뒤에 오던 노드들을 anchor에 연결
+ * - anchor에서 나가던 엣지는 템플릿의 마지막 노드들에서 나가도록 재연결 (실패 경로 엣지는 anchor에 유지)
+ * - anchor 뒤쪽 노드는 템플릿 높이만큼 아래로 이동
+ */
+export function insertTemplateAfter(
+  nodes: PipelineNode[],
+  edges: Edge[],
+  anchorId: string,
+  doc: PipelineDocument
+): { nodes: PipelineNode[], edges: Edge[] } {
+  const anchor = nodes.find(n => n.id === anchorId)
+  if (!anchor) return { nodes, edges }
+
+  const fragment = instantiateTemplate(doc)
+  const fragmentStart = fragment.nodes.find(n => n.data.kind === 'start')
+  const body = fragment.nodes.filter(n => n !== fragmentStart)
+  if (body.length === 0) return { nodes, edges }
+
+  const bodyIds = new Set(body.map(n => n.id))
+  const entries = fragmentStart
+    ? fragment.edges.filter(e => e.source === fragmentStart.id && bodyIds.has(e.target)).map(e => e.target)
+    : body.filter(n => !fragment.edges.some(e => e.target === n.id)).map(n => n.id)
+  const exits = body.filter(n => !fragment.edges.some(e => e.source === n.id && bodyIds.has(e.target))).map(n => n.id)
+  const innerEdges = fragment.edges.filter(e => bodyIds.has(e.source) && bodyIds.has(e.target))
+
+  // 템플릿 Start 자리에 anchor가 오도록 평행 이동
+  const origin = fragmentStart?.position ?? { x: Math.min(...body.map(n => n.position.x)), y: Math.min(...body.map(n => n.position.y)) - ROW_GAP }
+  const dx = anchor.position.x - origin.x
+  const dy = anchor.position.y - origin.y
+  const placed = body.map(n => ({ ...n, position: { x: n.position.x + dx, y: n.position.y + dy } }))
+  const span = Math.max(...placed.map(n => n.position.y)) - anchor.position.y
+
+  // anchor 뒤쪽(도달 가능한) 노드를 아래로 밀어 겹치지 않게 함
+  const downstream = new Set<string>()
+  const stack = [anchorId]
+  while (stack.length > 0) {
+    const id = stack.pop()!
+    edges.filter(e => e.source === id && !downstream.has(e.target) && e.target !== anchorId).forEach(e => {
+      downstream.add(e.target)
+      stack.push(e.target)
+    })
+  }
+  const shifted = nodes.map(n => (downstream.has(n.id) ? { ...n, position: { x: n.position.x, y: n.position.y + span } } : n))
+
+  const rewire = (e: Edge) => e.source === anchorId && edgeCondition(e) === 'success'
+  const rewired = edges.filter(rewire).flatMap(e => exits.map(exit => ({ ...templateEdge(exit, e.target), data: e.data })))
+
+  return {
+    nodes: [...shifted, ...placed],
+    edges: [
+      ...edges.filter(e => !rewire(e)),
+      ...entries.map(entry => templateEdge(anchorId, entry)),
+      ...innerEdges,
+      ...rewired
+    ]
+  }
+}
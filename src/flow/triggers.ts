@@ -0,0 +1,198 @@
+import type { YAMLValue } from './yamlEmitter'
+import { shellQuote, substituteExpressions } from './quoting'
+
+/**
+ * 워크플로 트리거 (Start 노드에 저장)
+ * - push / pull_request: 브랜치·태그·경로 필터
+ * - schedule: cron 식 목록 (GitHub Actions 기준 UTC)
+ * - workflow_dispatch: 수동 실행 입력값. 노드 속성에서 `${{ inputs.NAME }}`으로 참조
+ */
+
+export type DispatchInputType = 'string' | 'boolean' | 'choice' | 'number' | 'environment'
+
+export const DISPATCH_INPUT_TYPES: DispatchInputType[] = ['string', 'boolean', 'choice', 'number', 'environment']
+
+export interface DispatchInput {
+  name: string
+  type: DispatchInputType
+  description?: string
+  required?: boolean
+  default?: string
+  /** choice 타입의 선택지 */
+  options?: string[]
+}
+
+export interface PushTrigger {
+  branches?: string[]
+  tags?: string[]
+  paths?: string[]
+}
+
+export interface PullRequestTrigger {
+  branches?: string[]
+  paths?: string[]
+}
+
+export interface PipelineTriggers {
+  push?: PushTrigger
+  pullRequest?: PullRequestTrigger
+  schedule?: string[]
+  dispatch?: { inputs: DispatchInput[] }
+}
+
+/** 트리거를 따로 지정하지 않은 파이프라인의 기본값 (`on: [push, pull_request]`) */
+export const DEFAULT_TRIGGERS: PipelineTriggers = { push: {}, pullRequest: {} }
+
+const listOrUndefined = (items: string[] | undefined): string[] | undefined =>
+  items && items.length > 0 ? items : undefined
+
+const hasFilters = (filter: object | undefined): boolean =>
+  !!filter && Object.values(filter).some(v => Array.isArray(v) && v.length > 0)
+
+/**
+ * 트리거 → 워크플로 `on:` 값
+ * - 필터 없는 push/pull_request만 있으면 `[push, pull_request]` 형식
+ * - 트리거가 하나도 없으면 수동 실행만 가능하도록 `workflow_dispatch`
+ */
+export function triggersToYAML(triggers: PipelineTriggers = DEFAULT_TRIGGERS): YAMLValue {
+  const { push, pullRequest, schedule = [], dispatch } = triggers
+  const simple = [push && 'push', pullRequest && 'pull_request'].filter((e): e is string => !!e)
+  if (!hasFilters(push) && !hasFilters(pullRequest) && schedule.length === 0 && !dispatch) {
+    return simple.length > 0 ? simple : { workflow_dispatch: {} }
+  }
+
+  return {
+    push: push && { branches: listOrUndefined(push.branches), tags: listOrUndefined(push.tags), paths: listOrUndefined(push.paths) },
+    pull_request: pullRequest && { branches: listOrUndefined(pullRequest.branches), paths: listOrUndefined(pullRequest.paths) },
+    schedule: schedule.length > 0 ? schedule.map(cron => ({ cron })) : undefined,
+    workflow_dispatch: dispatch && {
+      inputs: dispatch.inputs.length > 0
+        ? Object.fromEntries(dispatch.inputs.map(input => [input.name, {
+          description: input.description || undefined,
+          type: input.type,
+          required: input.required || undefined,
+          default: input.default || undefined,
+          options: input.type === 'choice' ? input.options ?? [] : undefined
+        }]))
+        : undefined
+    }
+  }
+}
+
+/**
+ * 카드/목록에 표시할 트리거 요약 (예: `push · PR · cron · manual`)
+ */
+export function triggerSummary(triggers: PipelineTriggers = DEFAULT_TRIGGERS): string {
+  const parts = [
+    triggers.push && (triggers.push.tags?.length && !triggers.push.branches?.length ? 'tags' : 'push'),
+    triggers.pullRequest && 'PR',
+    triggers.schedule?.length && 'cron',
+    triggers.dispatch && 'manual'
+  ]
+  return parts.filter(Boolean).join(' · ')
+}
+
+/* ───────────── cron ───────────── */
+
+const CRON_FIELDS = [
+  { name: '분', min: 0, max: 59 },
+  { name: '시', min: 0, max: 23 },
+  { name: '일', min: 1, max: 31 },
+  { name: '월', min: 1, max: 12, names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'] },
+  { name: '요일', min: 0, max: 6, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] }
+]
+
+const WEEKDAYS = ['일', '월', '화', '수', '목', '금', '토']
+
+/** 필드 값 하나 (숫자 또는 월/요일 이름) → 숫자 */
+const cronNumber = (token: string, field: typeof CRON_FIELDS[number]): number => {
+  const named = field.names?.indexOf(token.toUpperCase()) ?? -1
+  if (named >= 0) return named + field.min
+  return /^\d+$/.test(token) ? Number(token) : NaN
+}
+
+/**
+ * cron 식 검증. 올바르면 null, 아니면 오류 메시지
+ * - 5개 필드 (분 시 일 월 요일), 각 필드는 `*`, 숫자, 범위(a-b), 목록(a,b), 간격(x/n) 조합
+ */
+export function cronError(expr: string): string | null {
+  const fields = expr.trim().split(/\s+/)
+  if (fields.length !== 5) return '필드 5개(분 시 일 월 요일)가 필요합니다'
+  for (let i = 0; i < 5; i++) {
+    const spec = CRON_FIELDS[i]
+    for (const part of fields[i].split(',')) {
+      const [range, step] = part.split('/')
+      if (step !== undefined && !/^[1-9]\d*$/.test(step)) return `${spec.name}: 간격 '${step}'이(가) 올바르지 않습니다`
+      if (range === '*') continue
+      const bounds = range.split('-').map(t => cronNumber(t, spec))
+      if (bounds.length > 2 || bounds.some(b => Number.isNaN(b) || b < spec.min || b > spec.max)) {
+        return `${spec.name}: '${part}'은(는) ${spec.min}-${spec.max} 범위여야 합니다`
+      }
+      if (bounds.length === 2 && bounds[0] > bounds[1]) return `${spec.name}: 범위 '${range}'의 시작이 끝보다 큽니다`
+    }
+  }
+  return null
+}
+
+const pad2 = (n: number) => String(n).padStart(2, '0')
+
+/** 요일 필드 → `월~금`, `월, 수` 등 */
+const describeWeekdays = (field: string): string =>
+  field.split(',').map(part => part.split('-').map(t => WEEKDAYS[cronNumber(t, CRON_FIELDS[4])]).join('~')).join(', ')
+
+/**
+ * cron 식을 사람이 읽을 수 있는 문장으로 (예: `0 9 * * 1-5` → `매주 월~금 09:00 (UTC)`)
+ * - 자주 쓰는 형태만 풀어 쓰고, 나머지는 필드별로 나열
+ */
+export function describeCron(expr: string): string {
+  if (cronError(expr)) return '올바르지 않은 cron 식'
+  const [minute, hour, day, month, weekday] = expr.trim().split(/\s+/)
+  const fixed = (f: string) => /^\d+$/.test(f)
+  const every = (f: string) => /^\*\/(\d+)$/.exec(f)?.[1]
+
+  let text: string
+  if (minute === '*' && hour === '*') text = '매분'
+  else if (every(minute) && hour === '*') text = `${every(minute)}분마다`
+  else if (fixed(minute) && hour === '*') text = `매시 ${minute}분`
+  else if (fixed(minute) && every(hour)) text = `${every(hour)}시간마다 ${minute}분`
+  else if (fixed(minute) && fixed(hour)) text = `${pad2(Number(hour))}:${pad2(Number(minute))}`
+  else text = `분 ${minute}, 시 ${hour}`
+
+  const clock = fixed(minute) && fixed(hour)
+  if (day === '*' && month === '*' && weekday === '*') text = clock ? `매일 ${text}` : text
+  else if (day === '*' && month === '*') text = `매주 ${describeWeekdays(weekday)} ${text}`
+  else if (month === '*' && weekday === '*') text = `매월 ${day}일 ${text}`
+  else if (weekday === '*') text = `매년 ${month}월 ${day}일 ${text}`
+  else text = `${text} (일 ${day}, 월 ${month}, 요일 ${weekday})`
+  return `${text} (UTC)`
+}
+
+/* ───────────── workflow_dispatch 입력값 ───────────── */
+
+// `${{ inputs.NAME }}` / `${{ github.event.inputs.NAME }}`
+const INPUT_EXPRESSION = /\$\{\{\s*(?:github\.event\.)?inputs\.([A-Za-z_][A-Za-z0-9_-]*)\s*\}\}/g
+
+/** 셸 실행 시 입력값을 담는 환경 변수 이름 (`deploy-env` → `INPUT_DEPLOY_ENV`) */
+export const inputVariable = (name: string): string => `INPUT_${name.toUpperCase().replace(/[^A-Z0-9_]/g, '_')}`
+
+/** 텍스트에서 참조하는 입력값 이름 */
+export const referencedInputs = (text: string): string[] => [...new Set([...text.matchAll(INPUT_EXPRESSION)].map(m => m[1]))]
+
+/**
+ * 생성된 셸 스크립트의 입력값 표현식을 환경 변수 참조로 치환 (`${{ inputs.X }}` → `${INPUT_X}`)
+ */
+export const substituteInputs = (script: string): string => substituteExpressions(script, INPUT_EXPRESSION, inputVariable)
+
+/**
+ * 셸 스크립트 머리에 둘 입력값 기본값 설정
+ * - 실행 환경에서 INPUT_X를 지정하지 않으면 기본값 사용, 필수 값에 기본값이 없으면 실행 전 중단
+ */
+export function inputsPrelude(inputs: DispatchInput[]): string {
+  const lines = inputs.map(input => {
+    const variable = inputVariable(input.name)
+    if (input.default) return `export ${variable}=\${${variable}:-${shellQuote(input.default)}}\n`
+    if (input.required) return `: "\${${variable}:?${variable} (workflow input '${input.name}') is not set}"\n`
+    return `export ${variable}=\${${variable}:-}\n`
+  })
+  return lines.length > 0 ? `# Workflow inputs\n${lines.join('')}` : ''
+}
@@ -0,0 +1,417 @@
+import type { Edge } from 'reactflow'
+import { DEFAULT_PIPELINE_SETTINGS, edgeCondition, referencedSecrets, referencedVariables, schedulePipeline, type PipelineEdgeData, type PipelineNode, type PipelineSettings } from './codegen'
+import { isArtifactName, producedArtifacts } from './artifacts'
+import { dockerCredentials, imageRegistry, isBuildArg, isDockerPlatform, parseImageRef } from './docker'
+import { MAX_MATRIX_COMBINATIONS, matrixCombinations, matrixKeys, mergeMatrices, referencedMatrixKeys } from './matrix'
+import { fieldWarning, validateField, visibleFields } from './nodeSchema'
+import { isEnvName } from './quoting'
+import { DEFAULT_TRIGGERS, cronError, referencedInputs } from './triggers'
+
+/**
+ * 그래프 검증 모듈
+ * - 코드 생성 전에 그래프 구조와 노드 속성을 점검하여 진단 목록을 반환
+ * - 진단은 캔버스 노드 배지와 OutputPanel 문제 목록에서 공통으로 사용
+ */
+
+export type DiagnosticSeverity = 'error' | 'warning'
+
+export interface Diagnostic {
+  /** 목록 렌더링용 고유 키 */
+  id: string
+  severity: DiagnosticSeverity
+  message: string
+  nodeId?: string
+  edgeId?: string
+}
+
+/**
+ * 강한 연결 요소(Tarjan)로 사이클에 포함된 노드 id 집합을 계산
+ */
+const findCycleNodes = (nodeIds: string[], outgoing: Map<string, string[]>): Set<string> => {
+  const index = new Map<string, number>()
+  const low = new Map<string, number>()
+  const onStack = new Set<string>()
+  const stack: string[] = []
+  const inCycle = new Set<string>()
+  let counter = 0
+
+  const visit = (id: string) => {
+    index.set(id, counter)
+    low.set(id, counter)
+    counter++
+    stack.push(id)
+    onStack.add(id)
+    for (const next of outgoing.get(id) ?? []) {
+      if (!index.has(next)) {
+        visit(next)
+        low.set(id, Math.min(low.get(id)!, low.get(next)!))
+      } else if (onStack.has(next)) {
+        low.set(id, Math.min(low.get(id)!, index.get(next)!))
+      }
+    }
+    if (low.get(id) === index.get(id)) {
+      const component: string[] = []
+      let member: string
+      do {
+        member = stack.pop()!
+        onStack.delete(member)
+        component.push(member)
+      } while (member !== id)
+      const selfLoop = (outgoing.get(id) ?? []).includes(id)
+      if (component.length > 1 || selfLoop) component.forEach(c => inCycle.add(c))
+    }
+  }
+
+  nodeIds.forEach(id => { if (!index.has(id)) visit(id) })
+  return inCycle
+}
+
+/**
+ * 환경 변수/시크릿 선언 검증
+ * - 이름 형식 오류, 파이프라인 변수와 시크릿 이름 충돌
+ * - 노드 스크립트가 참조하지만 어디에도 선언되지 않은 변수와 시크릿
+ */
+const validateEnvironment = (nodes: PipelineNode[], settings: PipelineSettings): Diagnostic[] => {
+  const diagnostics: Diagnostic[] = []
+  const invalid = (names: string[]) => names.filter(name => !isEnvName(name))
+
+  invalid([...Object.keys(settings.env), ...settings.secrets]).forEach(name => {
+    diagnostics.push({ id: `env-name-${name}`, severity: 'error', message: `파이프라인 변수/시크릿 이름 '${name}'이(가) 올바르지 않습니다. 영문자, 숫자, _만 사용할 수 있습니다.` })
+  })
+  settings.secrets.filter(name => name in settings.env).forEach(name => {
+    diagnostics.push({ id: `env-conflict-${name}`, severity: 'warning', message: `'${name}'이(가) 변수와 시크릿에 모두 선언되어 있습니다. 시크릿 값이 우선합니다.` })
+  })
+
+  const pipelineNames = new Set([...Object.keys(settings.env), ...settings.secrets])
+  // GITHUB_TOKEN은 GitHub Actions가 자동으로 제공
+  const declaredSecrets = new Set(['GITHUB_TOKEN', ...settings.secrets, ...nodes.flatMap(n => n.data.secrets ?? [])])
+  nodes.forEach(n => {
+    const label = n.data.label || n.data.kind
+    invalid([...Object.keys(n.data.env ?? {}), ...(n.data.secrets ?? [])]).forEach(name => {
+      diagnostics.push({ id: `env-name-${n.id}-${name}`, severity: 'error', nodeId: n.id, message: `${label}: 변수/시크릿 이름 '${name}'이(가) 올바르지 않습니다.` })
+    })
+    const local = new Set(n.data.secrets ?? [])
+    referencedVariables(n.data)
+      .filter(name => !pipelineNames.has(name) && !local.has(name))
+      .forEach(name => {
+        diagnostics.push({ id: `env-undeclared-${n.id}-${name}`, severity: 'warning', nodeId: n.id, message: `${label}: $${name}이(가) 선언되지 않았습니다. 파이프라인 또는 노드의 변수/시크릿으로 추가하세요.` })
+      })
+    referencedSecrets(n.data)
+      .filter(name => !declaredSecrets.has(name))
+      .forEach(name => {
+        diagnostics.push({ id: `secret-undeclared-${n.id}-${name}`, severity: 'warning', nodeId: n.id, message: `${label}: secrets.${name}이(가) 시크릿 목록에 선언되지 않았습니다.` })
+      })
+  })
+
+  return diagnostics
+}
+
+/**
+ * 트리거 검증 (Start 노드)
+ * - 실행 조건이 하나도 없는 경우, cron 식 오류, 입력값 이름/선택지 오류
+ * - 노드 속성에서 참조하지만 선언되지 않은 `${{ inputs.NAME }}`
+ */
+const validateTriggers = (start: PipelineNode, nodes: PipelineNode[]): Diagnostic[] => {
+  const diagnostics: Diagnostic[] = []
+  const triggers = start.data.triggers ?? DEFAULT_TRIGGERS
+  const add = (id: string, severity: DiagnosticSeverity, message: string, nodeId = start.id) =>
+    diagnostics.push({ id: `trigger-${id}`, severity, nodeId, message })
+
+  if (!triggers.push && !triggers.pullRequest && !triggers.schedule?.length && !triggers.dispatch) {
+    add('none', 'warning', '트리거가 없습니다. 수동 실행(workflow_dispatch)으로만 생성됩니다.')
+  }
+  triggers.schedule?.forEach((cron, i) => {
+    const error = cronError(cron)
+    if (error) add(`cron-${i}`, 'error', `schedule '${cron}': ${error}`)
+  })
+  const inputs = triggers.dispatch?.inputs ?? []
+  inputs.forEach((input, i) => {
+    if (!/^[A-Za-z_][A-Za-z0-9_-]*$/.test(input.name)) {
+      add(`input-name-${i}`, 'error', `입력값 이름 '${input.name}'이(가) 올바르지 않습니다. 영문자, 숫자, _, -만 사용할 수 있습니다.`)
+    }
+    if (inputs.findIndex(other => other.name === input.name) !== i) add(`input-duplicate-${i}`, 'error', `입력값 '${input.name}'이(가) 중복되었습니다.`)
+    if (input.type === 'choice' && !input.options?.length) add(`input-options-${i}`, 'error', `입력값 '${input.name}': choice 타입에는 선택지가 필요합니다.`)
+    if (input.type === 'choice' && input.default && !input.options?.includes(input.default)) {
+      add(`input-default-${i}`, 'warning', `입력값 '${input.name}': 기본값 '${input.default}'이(가) 선택지에 없습니다.`)
+    }
+  })
+
+  const declared = new Set(inputs.map(input => input.name))
+  nodes.forEach(n => {
+    const texts = [...Object.values(n.data), ...Object.values(n.data.env ?? {}), ...Object.values(n.data.with ?? {})]
+      .filter((v): v is string => typeof v === 'string')
+    referencedInputs(texts.join('\n')).filter(name => !declared.has(name)).forEach(name => {
+      add(`input-undeclared-${n.id}-${name}`, 'warning', `${n.data.label || n.data.kind}: inputs.${name}이(가) 수동 실행 입력값에 선언되지 않았습니다.`, n.id)
+    })
+  })
+
+  return diagnostics
+}
+
+/**
+ * 매트릭스 검증
+ * - 축 이름 형식, 값이 없는 축, 조합 수 제한
+ * - `${{ matrix.NAME }}` 참조가 그 노드가 속한 job의 매트릭스에 있는지 (매트릭스는 job 단위)
+ */
+const validateMatrices = (nodes: PipelineNode[], edges: Edge[]): Diagnostic[] => {
+  const diagnostics: Diagnostic[] = []
+  nodes.forEach(n => {
+    const matrix = n.data.matrix
+    if (!matrix) return
+    const label = n.data.label || n.data.kind
+    Object.entries(matrix.axes).forEach(([axis, values]) => {
+      if (!/^[A-Za-z_][A-Za-z0-9_-]*$/.test(axis)) {
+        diagnostics.push({ id: `matrix-axis-${n.id}-${axis}`, severity: 'error', nodeId: n.id, message: `${label}: 매트릭스 축 이름 '${axis}'이(가) 올바르지 않습니다.` })
+      }
+      if (values.length === 0) {
+        diagnostics.push({ id: `matrix-empty-${n.id}-${axis}`, severity: 'error', nodeId: n.id, message: `${label}: 매트릭스 축 '${axis}'에 값이 없습니다.` })
+      }
+    })
+    const count = matrixCombinations(matrix).length
+    if (count > MAX_MATRIX_COMBINATIONS) {
+      diagnostics.push({ id: `matrix-size-${n.id}`, severity: 'error', nodeId: n.id, message: `${label}: 매트릭스 조합이 ${count}개입니다. 최대 ${MAX_MATRIX_COMBINATIONS}개까지 실행할 수 있습니다.` })
+    }
+  })
+
+  schedulePipeline(nodes, edges).jobs.forEach(job => {
+    const keys = new Set(matrixKeys(mergeMatrices(job.nodes.map(n => n.data.matrix))))
+    job.nodes.forEach(n => {
+      const texts = [...Object.values(n.data), ...Object.values(n.data.env ?? {}), ...Object.values(n.data.with ?? {})]
+        .filter((v): v is string => typeof v === 'string')
+      referencedMatrixKeys(texts.join('\n')).filter(key => !keys.has(key)).forEach(key => {
+        diagnostics.push({ id: `matrix-undeclared-${n.id}-${key}`, severity: 'warning', nodeId: n.id, message: `${n.data.label || n.data.kind}: matrix.${key}이(가) 이 job의 매트릭스에 없습니다.` })
+      })
+    })
+  })
+  return diagnostics
+}
+
+/**
+ * 노드 id → 그 노드보다 앞에 연결된 모든 노드 id를 구하는 함수
+ */
+const ancestorsOf = (edges: Edge[]) => {
+  const incoming = new Map<string, string[]>()
+  edges.forEach(e => incoming.set(e.target, [...(incoming.get(e.target) ?? []), e.source]))
+  return (id: string): Set<string> => {
+    const seen = new Set<string>()
+    const stack = [...(incoming.get(id) ?? [])]
+    while (stack.length > 0) {
+      const next = stack.pop()!
+      if (seen.has(next)) continue
+      seen.add(next)
+      stack.push(...(incoming.get(next) ?? []))
+    }
+    return seen
+  }
+}
+
+/**
+ * 아티팩트 검증
+ * - 이름 형식, 경로가 없는 아티팩트, 여러 노드가 같은 이름으로 만드는 경우
+ * - 사용하는 아티팩트를 만드는 노드가 앞선 단계(선행 노드)에 있는지
+ */
+const validateArtifacts = (nodes: PipelineNode[], edges: Edge[]): Diagnostic[] => {
+  const diagnostics: Diagnostic[] = []
+  const producers = new Map<string, string[]>()
+  nodes.forEach(n => {
+    const label = n.data.label || n.data.kind
+    ;(n.data.produces ?? []).forEach((artifact, i) => {
+      if (!isArtifactName(artifact.name)) {
+        diagnostics.push({ id: `artifact-name-${n.id}-${i}`, severity: 'error', nodeId: n.id, message: `${label}: 아티팩트 이름 '${artifact.name}'이(가) 올바르지 않습니다.` })
+      }
+      if (artifact.paths.length === 0) {
+        diagnostics.push({ id: `artifact-paths-${n.id}-${i}`, severity: 'error', nodeId: n.id, message: `${label}: 아티팩트 '${artifact.name}'에 경로가 없습니다.` })
+      }
+    })
+    producedArtifacts(n.data).forEach(artifact => producers.set(artifact.name, [...(producers.get(artifact.name) ?? []), n.id]))
+  })
+  producers.forEach((ids, name) => {
+    if (ids.length < 2) return
+    ids.forEach(id => {
+      diagnostics.push({ id: `artifact-duplicate-${id}-${name}`, severity: 'warning', nodeId: id, message: `아티팩트 '${name}'을(를) 여러 노드가 만듭니다. 가장 가까운 선행 노드의 결과가 사용됩니다.` })
+    })
+  })
+
+  const ancestors = ancestorsOf(edges)
+  nodes.forEach(n => {
+    if (!n.data.consumes?.length) return
+    const upstream = ancestors(n.id)
+    n.data.consumes.forEach(name => {
+      if ((producers.get(name) ?? []).some(id => upstream.has(id))) return
+      diagnostics.push({
+        id: `artifact-missing-${n.id}-${name}`,
+        severity: 'error',
+        nodeId: n.id,
+        message: producers.has(name)
+          ? `${n.data.label || n.data.kind}: 아티팩트 '${name}'을(를) 만드는 노드가 이 노드보다 앞에 연결되어 있지 않습니다.`
+          : `${n.data.label || n.data.kind}: 아티팩트 '${name}'을(를) 만드는 노드가 없습니다.`
+      })
+    })
+  })
+  return diagnostics
+}
+
+/**
+ * Docker 빌드 옵션 검증
+ * - 자격 증명 시크릿 이름, 플랫폼/build arg 형식
+ * - Docker Hub에 push하는 이미지에 사용자/조직 이름이 없는 경우
+ */
+const validateDocker = (nodes: PipelineNode[]): Diagnostic[] => {
+  const diagnostics: Diagnostic[] = []
+  nodes.forEach(n => {
+    const options = n.data.docker
+    if (n.data.kind !== 'docker_build' || !options) return
+    const label = n.data.label || n.data.kind
+    if (options.push) {
+      Object.values(dockerCredentials(options)).filter(name => !isEnvName(name)).forEach(name => {
+        diagnostics.push({ id: `docker-secret-${n.id}-${name}`, severity: 'error', nodeId: n.id, message: `${label}: 레지스트리 시크릿 이름 '${name}'이(가) 올바르지 않습니다.` })
+      })
+      const { name } = parseImageRef((n.data.tag ?? '').trim())
+      if (name && !imageRegistry(name) && !name.includes('/')) {
+        diagnostics.push({ id: `docker-namespace-${n.id}`, severity: 'warning', nodeId: n.id, message: `${label}: Docker Hub에 push하려면 이미지 이름에 사용자/조직을 포함하세요 (예: user/${name}).` })
+      }
+    }
+    ;(options.platforms ?? []).filter(platform => !isDockerPlatform(platform)).forEach(platform => {
+      diagnostics.push({ id: `docker-platform-${n.id}-${platform}`, severity: 'error', nodeId: n.id, message: `${label}: 플랫폼 '${platform}'은(는) os/arch 형식이어야 합니다 (예: linux/arm64).` })
+    })
+    ;(options.buildArgs ?? []).filter(arg => !isBuildArg(arg)).forEach(arg => {
+      diagnostics.push({ id: `docker-build-arg-${n.id}-${arg}`, severity: 'error', nodeId: n.id, message: `${label}: build arg '${arg}'은(는) KEY=VALUE 형식이어야 합니다.` })
+    })
+  })
+  return diagnostics
+}
+
+/**
+ * Kubernetes 배포 노드 검증
+ * - 이미지를 가져올 노드가 Docker Build 노드이고 앞 단계에 연결되어 있는지
+ * - kubectl: 이미지 교체/rollout 대기에 필요한 rollout 대상
+ */
+const validateK8s = (nodes: PipelineNode[], edges: Edge[]): Diagnostic[] => {
+  const diagnostics: Diagnostic[] = []
+  const byId = new Map(nodes.map(n => [n.id, n]))
+  const ancestors = ancestorsOf(edges)
+  nodes.forEach(n => {
+    if (n.data.kind !== 'deploy_k8s') return
+    const label = n.data.label || n.data.kind
+    const { imageFrom } = n.data
+    if (imageFrom) {
+      const source = byId.get(imageFrom)
+      if (!source || source.data.kind !== 'docker_build') {
+        diagnostics.push({ id: `k8s-image-source-${n.id}`, severity: 'error', nodeId: n.id, message: `${label}: 이미지를 가져올 Docker Build 노드가 없습니다.` })
+      } else if (!ancestors(n.id).has(imageFrom)) {
+        diagnostics.push({ id: `k8s-image-order-${n.id}`, severity: 'error', nodeId: n.id, message: `${label}: 이미지를 만드는 '${source.data.label || source.data.kind}' 노드가 이 노드보다 앞에 연결되어 있지 않습니다.` })
+      }
+    }
+    if (n.data.deployTool !== 'helm' && !n.data.rolloutTarget?.trim()) {
+      if (imageFrom || n.data.image?.trim()) {
+        diagnostics.push({ id: `k8s-set-image-${n.id}`, severity: 'warning', nodeId: n.id, message: `${label}: rollout 대상이 없어 이미지가 적용되지 않습니다. 매니페스트의 이미지가 그대로 사용됩니다.` })
+      }
+      if (n.data.waitRollout) {
+        diagnostics.push({ id: `k8s-rollout-${n.id}`, severity: 'warning', nodeId: n.id, message: `${label}: rollout 대상이 없어 배포 완료를 기다리지 않습니다.` })
+      }
+    }
+  })
+  return diagnostics
+}
+
+/**
+ * 그래프 전체 검증
+ * - Start 노드 누락/중복, 사이클, 도달 불가 노드, 끊어진 간선, 종류별 필수 속성, 셸 메타 문자
+ * - 트리거, 매트릭스, 아티팩트, Docker 옵션, Kubernetes 배포, 환경 변수/시크릿 선언 (settings 기준)
+ */
+export function validateGraph(nodes: PipelineNode[], edges: Edge[], settings: PipelineSettings = DEFAULT_PIPELINE_SETTINGS): Diagnostic[] {
+  const diagnostics: Diagnostic[] = []
+  const byId = new Map(nodes.map(n => [n.id, n]))
+
+  const starts = nodes.filter(n => n.data.kind === 'start')
+  if (starts.length === 0) {
+    diagnostics.push({ id: 'missing-start', severity: 'error', message: 'Start 노드가 없습니다. 파이프라인을 생성하려면 Start 노드를 추가하세요.' })
+  }
+  starts.slice(1).forEach(n => {
+    diagnostics.push({ id: `duplicate-start-${n.id}`, severity: 'error', nodeId: n.id, message: 'Start 노드가 여러 개입니다. 첫 번째 Start 노드만 사용됩니다.' })
+  })
+
+  const outgoing = new Map<string, string[]>()
+  edges.forEach(e => {
+    const missing = [e.source, e.target].filter(id => !byId.has(id))
+    if (missing.length > 0) {
+      diagnostics.push({ id: `dangling-edge-${e.id}`, severity: 'warning', edgeId: e.id, message: `간선 ${e.id}이(가) 존재하지 않는 노드(${missing.join(', ')})를 가리킵니다.` })
+      return
+    }
+    outgoing.set(e.source, [...(outgoing.get(e.source) ?? []), e.target])
+    const condition = edgeCondition(e)
+    if (condition === 'custom' && !(e.data as PipelineEdgeData | undefined)?.expression?.trim()) {
+      diagnostics.push({ id: `edge-expression-${e.id}`, severity: 'error', edgeId: e.id, nodeId: e.target, message: '사용자 조건 연결에 조건식이 없습니다.' })
+    }
+    if (condition === 'failure' && byId.get(e.source)!.data.continueOnError) {
+      diagnostics.push({ id: `failure-edge-${e.id}`, severity: 'warning', edgeId: e.id, nodeId: e.target, message: '실패해도 계속 진행하는 노드에서 나가는 실패 경로는 실행되지 않습니다.' })
+    }
+  })
+
+  const cycleNodes = findCycleNodes(nodes.map(n => n.id), outgoing)
+  cycleNodes.forEach(id => {
+    diagnostics.push({ id: `cycle-${id}`, severity: 'error', nodeId: id, message: '순환 의존성에 포함되어 있어 실행 순서를 정할 수 없습니다.' })
+  })
+
+  if (starts.length > 0) {
+    const reachable = new Set<string>([starts[0].id])
+    const stack = [starts[0].id]
+    while (stack.length > 0) {
+      const id = stack.pop()!
+      for (const next of outgoing.get(id) ?? []) {
+        if (!reachable.has(next)) {
+          reachable.add(next)
+          stack.push(next)
+        }
+      }
+    }
+    nodes.forEach(n => {
+      if (reachable.has(n.id) || n.data.kind === 'start') return
+      diagnostics.push({ id: `unreachable-${n.id}`, severity: 'warning', nodeId: n.id, message: 'Start에서 도달할 수 없어 생성 결과에서 제외됩니다.' })
+    })
+  }
+
+  nodes.forEach(n => {
+    visibleFields(n.data).forEach(field => {
+      const value = n.data[field.key]
+      const error = validateField(field, value, n.data)
+      const warning = error ? null : fieldWarning(field, value)
+      if (warning) {
+        diagnostics.push({ id: `shell-${n.id}-${field.key}`, severity: 'warning', nodeId: n.id, message: `${n.data.label || n.data.kind} · ${field.label}: ${warning}` })
+      }
+      if (!error) return
+      const missing = !value || !value.trim()
+      diagnostics.push({
+        id: `field-${n.id}-${field.key}`,
+        severity: missing ? 'error' : 'warning',
+        nodeId: n.id,
+        message: `${n.data.label || n.data.kind} · ${field.label}: ${error}`
+      })
+    })
+    const dir = n.data.workingDirectory?.trim()
+    if (dir && (dir.startsWith('/') || dir.split('/').includes('..'))) {
+      diagnostics.push({ id: `working-directory-${n.id}`, severity: 'warning', nodeId: n.id, message: `${n.data.label || n.data.kind}: 작업 디렉터리 '${dir}'이(가) 저장소 밖을 가리킬 수 있습니다. 저장소 루트 기준 상대 경로를 사용하세요.` })
+    }
+  })
+
+  if (starts.length > 0) diagnostics.push(...validateTriggers(starts[0], nodes))
+  diagnostics.push(...validateMatrices(nodes, edges))
+  diagnostics.push(...validateArtifacts(nodes, edges))
+  diagnostics.push(...validateDocker(nodes))
+  diagnostics.push(...validateK8s(nodes, edges))
+  diagnostics.push(...validateEnvironment(nodes, settings))
+
+  return diagnostics
+}
+
+/**
+ * 노드 id별 진단 목록으로 그룹화
+ */
+export function groupDiagnosticsByNode(diagnostics: Diagnostic[]): Map<string, Diagnostic[]> {
+  const grouped = new Map<string, Diagnostic[]>()
+  diagnostics.forEach(d => {
+    if (!d.nodeId) return
+    grouped.set(d.nodeId, [...(grouped.get(d.nodeId) ?? []), d])
+  })
+  return grouped
+}
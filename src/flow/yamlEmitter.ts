@@ -0,0 +1,128 @@
+/**
+ * 워크플로 YAML 직렬화기
+ * - 객체 키는 삽입 순서 그대로 출력 (생성기가 정한 순서 유지)
+ * - 여러 줄 문자열은 블록 스칼라(`|`), 모호한 스칼라(예약어, 숫자, 날짜 등)는 작은따옴표로 인용
+ * - `\r` 등 블록 스칼라에 담을 수 없는 제어 문자가 있으면 이스케이프한 큰따옴표 문자열
+ * - 짧은 스칼라 배열은 `[a, b]` 흐름 형식, 그 외는 `- item` 블록 형식
+ */
+
+export type YAMLValue = string | number | boolean | null | undefined | YAMLValue[] | { [key: string]: YAMLValue }
+
+type Scalar = string | number | boolean | null
+
+// YAML 1.1 불리언/널 표기. 값으로 쓰이면 문자열로 읽히도록 인용
+const RESERVED_WORDS = /^(true|false|yes|no|y|n|on|off|null|~)$/i
+// 키는 YAML 1.2 core 스키마만 고려 (GitHub Actions의 `on:` 키는 그대로 둠)
+const RESERVED_KEYS = /^(true|false|null|~)$/i
+const NUMBER_LIKE = /^[-+]?(\.\d+|\d[\d_]*(\.\d*)?([eE][-+]?\d+)?|0x[\da-fA-F]+|0o[0-7]+|\.inf|\.nan)$/i
+// YAML 1.1 timestamp (`2024-01-01`, `2024-01-01T10:00:00Z` 등). 인용하지 않으면 날짜로 읽힘
+const TIMESTAMP_LIKE = /^\d{4}-\d\d?-\d\d?(?:(?:[Tt]|[ \t]+)\d\d?:\d\d:\d\d(?:\.\d*)?(?:[ \t]*(?:Z|[-+]\d\d?(?::\d\d)?))?)?$/
+// 탭/개행 외 제어 문자 (일반 스칼라와 블록 스칼라에 그대로 쓸 수 없음)
+// eslint-disable-next-line no-control-regex
+const CONTROL_CHARS = /[\u0000-\u0008\u000b-\u001f\u007f]/
+const INDICATOR_START = /^[-?:,[\]{}#&*!|>'"%@`]/
+const FLOW_INDICATOR = /[,[\]{}]/
+const MAX_FLOW_LENGTH = 60
+
+const isScalar = (v: YAMLValue): v is Scalar => v === null || typeof v !== 'object'
+
+const needsQuote = (s: string, reserved: RegExp, flow: boolean): boolean =>
+  s === '' ||
+  reserved.test(s) ||
+  NUMBER_LIKE.test(s) ||
+  TIMESTAMP_LIKE.test(s) ||
+  CONTROL_CHARS.test(s) ||
+  INDICATOR_START.test(s) ||
+  /^\s|\s$/.test(s) ||
+  /:(\s|$)/.test(s) ||
+  /\s#/.test(s) ||
+  (flow && FLOW_INDICATOR.test(s))
+
+const quote = (s: string): string =>
+  // 제어 문자가 있으면 이스케이프가 가능한 큰따옴표 형식 사용
+  // eslint-disable-next-line no-control-regex
+  /[\u0000-\u001f\u007f]/.test(s) ? JSON.stringify(s) : `'${s.replace(/'/g, "''")}'`
+
+const formatScalar = (v: Scalar, flow = false): string => {
+  if (v === null) return 'null'
+  if (typeof v !== 'string') return String(v)
+  return needsQuote(v, RESERVED_WORDS, flow) ? quote(v) : v
+}
+
+const formatKey = (k: string): string => (needsQuote(k, RESERVED_KEYS, false) ? quote(k) : k)
+
+// 공백/개행뿐인 문자열은 블록 스칼라로 보존되지 않으므로 인용
+const isMultiline = (v: YAMLValue): v is string => typeof v === 'string' && v.includes('\n') && /\S/.test(v) && !CONTROL_CHARS.test(v)
+
+/**
+ * 여러 줄 문자열 → 블록 스칼라 (헤더 + 본문 줄)
+ * - 끝 개행 개수에 따라 chomping 표시자(`|`, `|-`, `|+`) 선택
+ * - 내용이 있는 첫 줄이 공백으로 시작하면 들여쓰기 표시자를 명시 (앞의 빈 줄은 들여쓰기 판단에서 제외됨)
+ */
+const blockScalar = (s: string, indent: number): { header: string, lines: string[] } => {
+  let chomp = ''
+  let body = s
+  if (!s.endsWith('\n')) {
+    chomp = '-'
+  } else if (s.endsWith('\n\n')) {
+    chomp = '+'
+    body = s.slice(0, -1)
+  } else {
+    body = s.slice(0, -1)
+  }
+  const indicator = /^[ \t]/.test(body.split('\n').find(l => l !== '') ?? '') ? '2' : ''
+  const pad = ' '.repeat(indent)
+  return { header: `|${indicator}${chomp}`, lines: body.split('\n').map(l => (l ? pad + l : '')) }
+}
+
+const isFlowSequence = (items: YAMLValue[]): boolean =>
+  items.every(i => isScalar(i) && !isMultiline(i)) &&
+  items.map(i => formatScalar(i as Scalar, true)).join(', ').length <= MAX_FLOW_LENGTH
+
+/**
+ * `prefix` 뒤에 값을 이어 붙여 출력 (prefix는 `key:` 또는 `-`)
+ */
+const emitEntry = (prefix: string, value: YAMLValue, indent: number): string[] => {
+  const pad = ' '.repeat(indent)
+  if (value === undefined) return []
+  if (isMultiline(value)) {
+    const { header, lines } = blockScalar(value, indent + 2)
+    return [`${pad}${prefix} ${header}`, ...lines]
+  }
+  if (isScalar(value)) return [`${pad}${prefix} ${formatScalar(value)}`]
+  if (Array.isArray(value)) {
+    if (value.length === 0) return [`${pad}${prefix} []`]
+    if (isFlowSequence(value)) return [`${pad}${prefix} [${value.map(i => formatScalar(i as Scalar, true)).join(', ')}]`]
+    return [`${pad}${prefix}`, ...emitSequence(value, indent + 2)]
+  }
+  if (Object.values(value).every(v => v === undefined)) return [`${pad}${prefix} {}`]
+  return [`${pad}${prefix}`, ...emitMapping(value, indent + 2)]
+}
+
+const emitMapping = (obj: { [key: string]: YAMLValue }, indent: number): string[] =>
+  Object.entries(obj)
+    .filter(([, v]) => v !== undefined)
+    .flatMap(([k, v]) => emitEntry(`${formatKey(k)}:`, v, indent))
+
+const emitSequence = (items: YAMLValue[], indent: number): string[] =>
+  items.filter(v => v !== undefined).flatMap(item => {
+    if (item === null || typeof item !== 'object' || Array.isArray(item)) return emitEntry('-', item, indent)
+    // 매핑 항목: 첫 키를 `- ` 뒤에 붙이고 나머지 키는 같은 열에 맞춤
+    const lines = emitMapping(item, indent + 2)
+    if (lines.length === 0) return [`${' '.repeat(indent)}- {}`]
+    lines[0] = `${' '.repeat(indent)}- ${lines[0].slice(indent + 2)}`
+    return lines
+  })
+
+/**
+ * 값 → YAML 문서 문자열 (끝에 개행 포함)
+ */
+export function toYAML(value: YAMLValue): string {
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) return emitMapping(value, 0).join('\n') + '\n'
+  if (Array.isArray(value)) return emitSequence(value, 0).join('\n') + '\n'
+  if (isMultiline(value)) {
+    const { header, lines } = blockScalar(value, 2)
+    return [header, ...lines].join('\n') + '\n'
+  }
+  return formatScalar(value ?? null) + '\n'
+}